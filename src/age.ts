@@ -0,0 +1,332 @@
+import * as crypto from "crypto";
+
+const BECH32_CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+const BECH32_GENERATOR = [
+  0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3,
+];
+
+const AGE_VERSION_LINE = "age-encryption.org/v1";
+const X25519_INFO = "age-encryption.org/v1/X25519";
+const IDENTITY_HRP = "age-secret-key-";
+const RECIPIENT_HRP = "age";
+const CHUNK_SIZE = 64 * 1024;
+const TAG_SIZE = 16;
+
+// DER prefixes of raw X25519 keys
+const PKCS8_PREFIX = Buffer.from("302e020100300506032b656e04220420", "hex");
+const SPKI_PREFIX = Buffer.from("302a300506032b656e032100", "hex");
+
+export class AgeError extends Error {}
+
+function bech32Polymod(values: number[]): number {
+  let chk = 1;
+  for (const value of values) {
+    const top = chk >>> 25;
+    chk = ((chk & 0x1ffffff) << 5) ^ value;
+    BECH32_GENERATOR.forEach((g, i) => {
+      if ((top >>> i) & 1) {
+        chk ^= g;
+      }
+    });
+  }
+  return chk;
+}
+
+function bech32HrpExpand(hrp: string): number[] {
+  const codes = [...hrp].map((c) => c.charCodeAt(0));
+  return [...codes.map((c) => c >>> 5), 0, ...codes.map((c) => c & 31)];
+}
+
+/**
+ * Decode bech32 string without the 90 characters limit, as age does
+ */
+function bech32Decode(value: string): { hrp: string; data: Buffer } {
+  const lower = value.toLowerCase();
+  if (lower !== value && value.toUpperCase() !== value) {
+    throw new AgeError("mixed case bech32 string");
+  }
+  const sep = lower.lastIndexOf("1");
+  if (sep < 1 || sep + 7 > lower.length) {
+    throw new AgeError("invalid bech32 string");
+  }
+  const hrp = lower.slice(0, sep);
+  const values = [...lower.slice(sep + 1)].map((c) => {
+    const v = BECH32_CHARSET.indexOf(c);
+    if (v < 0) {
+      throw new AgeError("invalid bech32 character");
+    }
+    return v;
+  });
+  if (bech32Polymod([...bech32HrpExpand(hrp), ...values]) !== 1) {
+    throw new AgeError("invalid bech32 checksum");
+  }
+  // convert 5-bit groups to bytes without padding
+  const bytes: number[] = [];
+  let acc = 0;
+  let bits = 0;
+  for (const v of values.slice(0, -6)) {
+    acc = (acc << 5) | v;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((acc >>> bits) & 0xff);
+    }
+  }
+  if (bits >= 5 || (acc & ((1 << bits) - 1)) !== 0) {
+    throw new AgeError("invalid bech32 padding");
+  }
+  return { hrp, data: Buffer.from(bytes) };
+}
+
+function bech32Encode(hrp: string, data: Buffer): string {
+  const values: number[] = [];
+  let acc = 0;
+  let bits = 0;
+  for (const byte of data) {
+    acc = (acc << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      values.push((acc >>> bits) & 31);
+    }
+  }
+  if (bits > 0) {
+    values.push((acc << (5 - bits)) & 31);
+  }
+  const polymod =
+    bech32Polymod([...bech32HrpExpand(hrp), ...values, 0, 0, 0, 0, 0, 0]) ^ 1;
+  for (let i = 0; i < 6; i++) {
+    values.push((polymod >>> (5 * (5 - i))) & 31);
+  }
+  return hrp + "1" + values.map((v) => BECH32_CHARSET[v]).join("");
+}
+
+function hkdf(ikm: Buffer, salt: Buffer, info: string): Buffer {
+  return Buffer.from(crypto.hkdfSync("sha256", ikm, salt, info, 32));
+}
+
+function chachaOpen(key: Buffer, nonce: Buffer, sealed: Buffer): Buffer {
+  if (sealed.length < TAG_SIZE) {
+    throw new AgeError("truncated ciphertext");
+  }
+  const decipher = crypto.createDecipheriv("chacha20-poly1305", key, nonce, {
+    authTagLength: TAG_SIZE,
+  });
+  decipher.setAuthTag(sealed.subarray(sealed.length - TAG_SIZE));
+  return Buffer.concat([
+    decipher.update(sealed.subarray(0, sealed.length - TAG_SIZE)),
+    decipher.final(),
+  ]);
+}
+
+/**
+ * Unpadded standard base64 used by age headers
+ */
+function decodeBase64(value: string): Buffer {
+  if (!/^[A-Za-z0-9+/]*$/.test(value)) {
+    throw new AgeError("invalid base64 in header");
+  }
+  return Buffer.from(value, "base64");
+}
+
+/**
+ * Native age X25519 identity, i.e. `AGE-SECRET-KEY-1...`
+ */
+export class AgeIdentity {
+  private privateKey: crypto.KeyObject;
+  readonly publicKey: Buffer;
+
+  constructor(secret: Buffer) {
+    this.privateKey = crypto.createPrivateKey({
+      key: Buffer.concat([PKCS8_PREFIX, secret]),
+      format: "der",
+      type: "pkcs8",
+    });
+    const spki = crypto
+      .createPublicKey(this.privateKey)
+      .export({ format: "der", type: "spki" });
+    this.publicKey = spki.subarray(spki.length - 32);
+  }
+
+  static parse(value: string): AgeIdentity {
+    const { hrp, data } = bech32Decode(value);
+    if (hrp !== IDENTITY_HRP || data.length !== 32) {
+      throw new AgeError("invalid age identity");
+    }
+    return new AgeIdentity(data);
+  }
+
+  /**
+   * Recipient of this identity, i.e. `age1...`
+   */
+  get recipient(): string {
+    return bech32Encode(RECIPIENT_HRP, this.publicKey);
+  }
+
+  /**
+   * Unwrap file key from X25519 stanza, null if it's not for this identity
+   */
+  unwrap(args: string[], body: Buffer): Buffer | null {
+    if (args.length !== 1) {
+      throw new AgeError("invalid X25519 stanza");
+    }
+    const share = decodeBase64(args[0]);
+    if (share.length !== 32 || body.length !== 32) {
+      throw new AgeError("invalid X25519 stanza");
+    }
+    const shared = crypto.diffieHellman({
+      privateKey: this.privateKey,
+      publicKey: crypto.createPublicKey({
+        key: Buffer.concat([SPKI_PREFIX, share]),
+        format: "der",
+        type: "spki",
+      }),
+    });
+    if (shared.every((b) => b === 0)) {
+      throw new AgeError("invalid X25519 share");
+    }
+    const wrapKey = hkdf(
+      shared,
+      Buffer.concat([share, this.publicKey]),
+      X25519_INFO
+    );
+    try {
+      return chachaOpen(wrapKey, Buffer.alloc(12), body);
+    } catch (_) {
+      return null;
+    }
+  }
+}
+
+/**
+ * Parse age identities file content, comments and plugin identities are
+ * skipped
+ */
+export function parseIdentities(content: string): AgeIdentity[] {
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.startsWith("AGE-SECRET-KEY-1"))
+    .map((line) => AgeIdentity.parse(line));
+}
+
+function dearmor(content: Buffer): Buffer {
+  const text = content.toString();
+  const match =
+    /^\s*-----BEGIN AGE ENCRYPTED FILE-----\r?\n([\s\S]*?)-----END AGE ENCRYPTED FILE-----\s*$/.exec(
+      text
+    );
+  if (!match) {
+    return content;
+  }
+  return Buffer.from(match[1].replace(/\s/g, ""), "base64");
+}
+
+interface Stanza {
+  type: string;
+  args: string[];
+  body: Buffer;
+}
+
+function parseHeader(file: Buffer): {
+  stanzas: Stanza[];
+  // header up to and including `---`, covered by the MAC
+  macMessage: Buffer;
+  mac: Buffer;
+  payload: Buffer;
+} {
+  let offset = 0;
+  const readLine = () => {
+    const end = file.indexOf(0x0a, offset);
+    if (end < 0) {
+      throw new AgeError("truncated header");
+    }
+    const line = file.subarray(offset, end).toString("latin1");
+    offset = end + 1;
+    return line;
+  };
+
+  if (readLine() !== AGE_VERSION_LINE) {
+    throw new AgeError("unsupported age version");
+  }
+  const stanzas: Stanza[] = [];
+  for (;;) {
+    const lineStart = offset;
+    const line = readLine();
+    if (line.startsWith("--- ")) {
+      return {
+        stanzas,
+        macMessage: file.subarray(0, lineStart + 3),
+        mac: decodeBase64(line.slice(4)),
+        payload: file.subarray(offset),
+      };
+    }
+    if (!line.startsWith("-> ")) {
+      throw new AgeError("invalid header line");
+    }
+    const [type, ...args] = line.slice(3).split(" ");
+    const body: Buffer[] = [];
+    for (;;) {
+      const bodyLine = readLine();
+      body.push(decodeBase64(bodyLine));
+      if (bodyLine.length < 64) {
+        break;
+      }
+    }
+    stanzas.push({ type, args, body: Buffer.concat(body) });
+  }
+}
+
+function decryptPayload(fileKey: Buffer, payload: Buffer): Buffer {
+  if (payload.length < 16) {
+    throw new AgeError("truncated payload");
+  }
+  const key = hkdf(fileKey, payload.subarray(0, 16), "payload");
+  const sealed = payload.subarray(16);
+  const chunks: Buffer[] = [];
+  const sealedChunkSize = CHUNK_SIZE + TAG_SIZE;
+  for (let counter = 0, pos = 0; ; counter++, pos += sealedChunkSize) {
+    const last = pos + sealedChunkSize >= sealed.length;
+    // 11 bytes big-endian counter followed by last chunk flag
+    const nonce = Buffer.alloc(12);
+    nonce.writeUIntBE(counter, 5, 6);
+    nonce[11] = last ? 1 : 0;
+    try {
+      chunks.push(
+        chachaOpen(key, nonce, sealed.subarray(pos, pos + sealedChunkSize))
+      );
+    } catch (_) {
+      throw new AgeError("failed to decrypt payload");
+    }
+    if (last) {
+      return Buffer.concat(chunks);
+    }
+  }
+}
+
+/**
+ * Decrypt age file, optionally ASCII armored, with X25519 `identities`
+ */
+export function decryptAge(content: Buffer, identities: AgeIdentity[]): Buffer {
+  const { stanzas, macMessage, mac, payload } = parseHeader(dearmor(content));
+  for (const stanza of stanzas) {
+    if (stanza.type !== "X25519") {
+      continue;
+    }
+    for (const identity of identities) {
+      const fileKey = identity.unwrap(stanza.args, stanza.body);
+      if (!fileKey) {
+        continue;
+      }
+      const hmac = crypto
+        .createHmac("sha256", hkdf(fileKey, Buffer.alloc(0), "header"))
+        .update(macMessage)
+        .digest();
+      if (hmac.length !== mac.length || !crypto.timingSafeEqual(hmac, mac)) {
+        throw new AgeError("bad header MAC");
+      }
+      return decryptPayload(fileKey, payload);
+    }
+  }
+  throw new AgeError("no identity matched any of the recipients");
+}
@@ -0,0 +1,157 @@
+import vscode from "vscode";
+import { l10n } from "vscode";
+import { SopsFsProvider } from "./sopsfs-provider";
+import { unmountAll } from "./mounts";
+
+// what happens to mounted folders when locked
+export type MountedFoldersAction = "keep" | "lock" | "unmount";
+
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+function autoLockConfig(): {
+  idleMinutes: number;
+  mountedFolders: MountedFoldersAction;
+} {
+  const config = vscode.workspace.getConfiguration("sopsfs.autoLock");
+  return {
+    idleMinutes: config.get<number>("idleMinutes") ?? 0,
+    mountedFolders:
+      config.get<MountedFoldersAction>("mountedFolders") ?? "lock",
+  };
+}
+
+function isSopsTab(tab: vscode.Tab): boolean {
+  const input = tab.input;
+  if (input instanceof vscode.TabInputTextDiff) {
+    return input.original.scheme === "sops" || input.modified.scheme === "sops";
+  }
+  return (
+    (input instanceof vscode.TabInputText ||
+      input instanceof vscode.TabInputCustom) &&
+    input.uri.scheme === "sops"
+  );
+}
+
+function sopsTabs(): vscode.Tab[] {
+  return vscode.window.tabGroups.all.flatMap((group) =>
+    group.tabs.filter(isSopsTab)
+  );
+}
+
+/**
+ * Close editors of mounted SOPS files, those with unsaved changes are kept
+ * open rather than discarded
+ */
+async function closeSopsEditors() {
+  const tabs = sopsTabs();
+  const dirty = tabs.filter((i) => i.isDirty);
+  await vscode.window.tabGroups.close(tabs.filter((i) => !i.isDirty));
+  if (dirty.length) {
+    vscode.window.showWarningMessage(
+      l10n.t(
+        "{0} SOPS editor(s) with unsaved changes were kept open",
+        dirty.length
+      )
+    );
+  }
+}
+
+/**
+ * Drop all decrypted content, close editors of mounted SOPS files and lock
+ * or unmount mounted folders
+ */
+export async function lockAll(
+  provider: SopsFsProvider,
+  mountedFolders: MountedFoldersAction
+) {
+  await closeSopsEditors();
+  if (mountedFolders === "unmount") {
+    await unmountAll();
+  }
+  provider.lock(mountedFolders === "lock");
+}
+
+/**
+ * Run "Lock all SOPS files", unmounting mounted folders if configured so,
+ * otherwise keeping them locked until unlocked explicitly
+ */
+export async function lockAllNow(provider: SopsFsProvider) {
+  const { mountedFolders } = autoLockConfig();
+  await lockAll(provider, mountedFolders === "unmount" ? "unmount" : "lock");
+}
+
+/**
+ * Lock all SOPS files after `sopsfs.autoLock.idleMinutes` without accessing
+ * mounted SOPS files or working in their editors
+ */
+export class AutoLock implements vscode.Disposable {
+  private subscriptions: vscode.Disposable[] = [];
+  private timer: NodeJS.Timeout | undefined;
+  private lastActivity = Date.now();
+  private locking = false;
+
+  constructor(private provider: SopsFsProvider) {
+    const touchIfSops = (uri?: vscode.Uri) => {
+      if (uri?.scheme === "sops") {
+        this.touch();
+      }
+    };
+    this.subscriptions.push(
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration("sopsfs.autoLock")) {
+          this.schedule();
+        }
+      }),
+      vscode.window.onDidChangeActiveTextEditor((editor) =>
+        touchIfSops(editor?.document.uri)
+      ),
+      vscode.window.onDidChangeTextEditorSelection((e) =>
+        touchIfSops(e.textEditor.document.uri)
+      ),
+      vscode.workspace.onDidChangeTextDocument((e) =>
+        touchIfSops(e.document.uri)
+      )
+    );
+    this.schedule();
+  }
+
+  dispose() {
+    clearInterval(this.timer);
+    this.subscriptions.forEach((i) => i.dispose());
+  }
+
+  private touch() {
+    this.lastActivity = Date.now();
+  }
+
+  private schedule() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    if (autoLockConfig().idleMinutes > 0) {
+      this.touch();
+      this.timer = setInterval(() => this.check(), CHECK_INTERVAL_MS);
+    }
+  }
+
+  private async check() {
+    const { idleMinutes, mountedFolders } = autoLockConfig();
+    const idle =
+      Date.now() - Math.max(this.lastActivity, this.provider.lastAccess);
+    if (
+      this.locking ||
+      idle < idleMinutes * 60 * 1000 ||
+      // nothing left to lock but editors with unsaved changes
+      (this.provider.decryptedCount === 0 && sopsTabs().every((i) => i.isDirty))
+    ) {
+      return;
+    }
+    this.locking = true;
+    try {
+      await lockAll(this.provider, mountedFolders);
+    } catch (e) {
+      console.error("failed to lock SOPS files: " + e);
+    } finally {
+      this.locking = false;
+    }
+  }
+}
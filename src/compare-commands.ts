@@ -0,0 +1,89 @@
+import vscode from "vscode";
+import { l10n } from "vscode";
+import path from "path";
+import { SopsFs } from "./sopsfs";
+import { SopsFsProvider } from "./sopsfs-provider";
+import { listRevisions, resolveRevision } from "./git-revision";
+import { detectFileFormat } from "./sops-detect";
+
+function resolveTarget(uri?: vscode.Uri): vscode.Uri | undefined {
+  uri ??= vscode.window.activeTextEditor?.document.uri;
+  if (uri && uri.scheme !== "file") {
+    vscode.window.showErrorMessage(
+      l10n.t("Only SOPS files on local filesystem have git history")
+    );
+    return;
+  }
+  return uri;
+}
+
+async function compareDecrypted(
+  sopsFile: vscode.Uri,
+  ref: string,
+  refLabel: string
+) {
+  const dataPath =
+    "/" + SopsFs.dataFilenameOf(sopsFile, await detectFileFormat(sopsFile));
+  const basename = path.basename(sopsFile.path);
+  await vscode.commands.executeCommand(
+    "vscode.diff",
+    SopsFsProvider.composeUri(sopsFile, dataPath, ref),
+    SopsFsProvider.composeUri(sopsFile, dataPath),
+    l10n.t("{0} (decrypted, {1}) ↔ (decrypted)", basename, refLabel)
+  );
+}
+
+/**
+ * Diff decrypted content of SOPS file at HEAD against the working copy
+ */
+export async function compareWithHead(uri?: vscode.Uri) {
+  const sopsFile = resolveTarget(uri);
+  if (!sopsFile) {
+    return;
+  }
+  let ref: string;
+  try {
+    ref = await resolveRevision(sopsFile, "HEAD");
+  } catch (e) {
+    vscode.window.showErrorMessage(
+      l10n.t("{0} is not in a git repository", path.basename(sopsFile.path))
+    );
+    console.error("failed to resolve HEAD: " + e);
+    return;
+  }
+  await compareDecrypted(sopsFile, ref, "HEAD");
+}
+
+/**
+ * Diff decrypted content of SOPS file at a picked commit against the
+ * working copy
+ */
+export async function compareWithRevision(uri?: vscode.Uri) {
+  const sopsFile = resolveTarget(uri);
+  if (!sopsFile) {
+    return;
+  }
+  const items = listRevisions(sopsFile).then(
+    (revisions) =>
+      revisions.map((revision) => ({
+        label: `$(git-commit) ${revision.shortRef}`,
+        description: revision.subject,
+        detail: revision.date,
+        revision,
+      })),
+    (e) => {
+      vscode.window.showErrorMessage(
+        l10n.t("{0} is not in a git repository", path.basename(sopsFile.path))
+      );
+      console.error("failed to list revisions: " + e);
+      return [];
+    }
+  );
+  const item = await vscode.window.showQuickPick(items, {
+    placeHolder: l10n.t("Revision to compare with"),
+    matchOnDescription: true,
+  });
+  if (item) {
+    await compareDecrypted(sopsFile, item.revision.ref, item.revision.shortRef);
+  }
+}
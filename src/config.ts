@@ -0,0 +1,222 @@
+import { Uri, workspace } from "vscode";
+import * as os from "os";
+import * as path from "path";
+import type { LeafExtensionOptions } from "./leaf-extensions";
+
+// "sops" runs sops command, "builtin" handles age encrypted files in process
+export type SopsBackendName = "sops" | "builtin";
+
+export interface SopsOptions {
+  sopsCmd: string;
+  env: Record<string, string>;
+  backend: SopsBackendName;
+  inferValueTypes: boolean;
+  leafExtensions: LeafExtensionOptions;
+  // name of the profile in use
+  profile?: string;
+}
+
+export interface SopsProfile {
+  // glob patterns of SOPS files, relative to workspace folder
+  files?: string | string[];
+  env?: Record<string, string>;
+  sopsCommand?: string;
+}
+
+export interface VariableContext {
+  // fsPath of workspace folder containing the file
+  workspaceFolder?: string;
+  // fsPath of workspace folders by name
+  workspaceFolders: Record<string, string>;
+  // fsPath of the file
+  file?: string;
+  env: Record<string, string | undefined>;
+  userHome: string;
+}
+
+function resolveVariable(
+  name: string,
+  ctx: VariableContext
+): string | undefined {
+  const idx = name.indexOf(":");
+  const kind = idx < 0 ? name : name.slice(0, idx);
+  const arg = idx < 0 ? undefined : name.slice(idx + 1);
+  switch (kind) {
+    case "workspaceFolder":
+      return arg === undefined
+        ? ctx.workspaceFolder
+        : ctx.workspaceFolders[arg];
+    case "workspaceFolderBasename":
+      return ctx.workspaceFolder && path.basename(ctx.workspaceFolder);
+    case "file":
+      return ctx.file;
+    case "fileBasename":
+      return ctx.file && path.basename(ctx.file);
+    case "fileDirname":
+      return ctx.file && path.dirname(ctx.file);
+    case "userHome":
+      return ctx.userHome;
+    case "env":
+      return arg === undefined ? undefined : ctx.env[arg] ?? "";
+    case "pathSeparator":
+    case "/":
+      return path.sep;
+  }
+}
+
+/**
+ * Substitute VS Code variables like `${workspaceFolder}` or `${env:HOME}`,
+ * unknown variables are left as is
+ */
+export function substituteVariables(
+  value: string,
+  ctx: VariableContext
+): string {
+  return value.replace(
+    /\$\{([^}]+)\}/g,
+    (match, name: string) => resolveVariable(name, ctx) ?? match
+  );
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[\\^$.*+?()[\]{}|]/g, "\\$&");
+}
+
+/**
+ * Convert glob pattern to regular expression matching whole path, supports
+ * `*`, `**`, `?`, `{a,b}` and `[abc]`
+ */
+export function globToRegExp(glob: string): RegExp {
+  let res = "";
+  let inGroup = false;
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*") {
+      // `**/` also matches no folder at all
+      const slash = glob[i + 2] === "/";
+      res += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (c === "*") {
+      res += "[^/]*";
+    } else if (c === "?") {
+      res += "[^/]";
+    } else if (c === "{" && !inGroup) {
+      inGroup = true;
+      res += "(?:";
+    } else if (c === "}" && inGroup) {
+      inGroup = false;
+      res += ")";
+    } else if (c === "," && inGroup) {
+      res += "|";
+    } else if (c === "[" && glob.indexOf("]", i + 1) > i + 1) {
+      const end = glob.indexOf("]", i + 1);
+      const chars = glob.slice(i + 1, end).replace(/^!/, "^");
+      res += `[${chars.replace(/\\/g, "\\\\")}]`;
+      i = end;
+    } else {
+      res += escapeRegExp(c);
+    }
+  }
+  return new RegExp(`^${res}$`);
+}
+
+/**
+ * Expand `{a,b}` groups of glob pattern into separate patterns, e.g.
+ * `*.{js,map}` => `*.js`, `*.map`, as VS Code globs can't nest groups
+ */
+export function expandBraces(glob: string): string[] {
+  const start = glob.indexOf("{");
+  let depth = 0;
+  for (let i = start; start >= 0 && i < glob.length; i++) {
+    if (glob[i] === "{") {
+      depth++;
+    } else if (glob[i] === "}" && --depth === 0) {
+      const choices: string[] = [];
+      let choice = "";
+      let nested = 0;
+      for (const c of glob.slice(start + 1, i)) {
+        if (c === "," && !nested) {
+          choices.push(choice);
+          choice = "";
+          continue;
+        }
+        nested += c === "{" ? 1 : c === "}" ? -1 : 0;
+        choice += c;
+      }
+      choices.push(choice);
+      const rest = glob.slice(i + 1);
+      return choices.flatMap((c) =>
+        expandBraces(glob.slice(0, start) + c + rest)
+      );
+    }
+  }
+  return [glob];
+}
+
+/**
+ * Name of the first profile whose `files` patterns match `relativePath`, i.e.
+ * path of SOPS file relative to its workspace folder
+ */
+export function matchProfile(
+  profiles: Record<string, SopsProfile>,
+  relativePath: string
+): string | undefined {
+  return Object.entries(profiles).find(([, profile]) => {
+    const patterns = [profile.files ?? []].flat();
+    return patterns.some((i) => globToRegExp(i).test(relativePath));
+  })?.[0];
+}
+
+/**
+ * Options of sops command for `sopsFile`, resolved with settings of its
+ * workspace folder, or global ones if not given. The profile is matched by
+ * `files` patterns unless `profileName` is given, empty name for no profile.
+ */
+export function sopsOptions(sopsFile?: Uri, profileName?: string): SopsOptions {
+  const config = workspace.getConfiguration("sopsfs", sopsFile);
+  const folder = sopsFile && workspace.getWorkspaceFolder(sopsFile);
+  const ctx: VariableContext = {
+    workspaceFolder: folder?.uri.fsPath,
+    workspaceFolders: Object.fromEntries(
+      (workspace.workspaceFolders ?? []).map((i) => [i.name, i.uri.fsPath])
+    ),
+    file: sopsFile?.scheme === "file" ? sopsFile.fsPath : undefined,
+    env: process.env,
+    userHome: os.homedir(),
+  };
+
+  const profiles = config.get<Record<string, SopsProfile>>("profiles") ?? {};
+  const relativePath = !sopsFile
+    ? undefined
+    : folder
+    ? path.posix.relative(folder.uri.path, sopsFile.path)
+    : sopsFile.path;
+  const name =
+    profileName ??
+    (relativePath !== undefined
+      ? matchProfile(profiles, relativePath)
+      : undefined);
+  const profile: SopsProfile | undefined = name ? profiles[name] : undefined;
+
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries({
+    ...config.get<Record<string, unknown>>("env"),
+    ...profile?.env,
+  })) {
+    env[key] = substituteVariables(String(value), ctx);
+  }
+  return {
+    sopsCmd: substituteVariables(
+      profile?.sopsCommand || config.get<string>("sopsCommand") || "sops",
+      ctx
+    ),
+    env,
+    backend: config.get<SopsBackendName>("backend") ?? "sops",
+    inferValueTypes: !!config.get("inferValueTypes"),
+    leafExtensions: {
+      rules: config.get<Record<string, string>>("leafExtensions") ?? {},
+      detect: !!config.get("detectLeafExtensions"),
+    },
+    profile: profile ? name : undefined,
+  };
+}
@@ -0,0 +1,185 @@
+import vscode from "vscode";
+import { l10n } from "vscode";
+import path from "path";
+import type { ExecaError } from "execa";
+import { SopsFsProvider } from "./sopsfs-provider";
+import { execSops } from "./sops-cmd";
+import { findCreationRule } from "./sops-config";
+import {
+  EMPTY_DOCUMENTS,
+  SopsFormat,
+  pathToFormat,
+  toSopsFilename,
+} from "./sops-format";
+
+const FORMAT_ITEMS: (vscode.QuickPickItem & { format: SopsFormat })[] = [
+  { label: "JSON", format: SopsFormat.json },
+  { label: "YAML", format: SopsFormat.yaml },
+  { label: "INI", format: SopsFormat.ini },
+  { label: "ENV", description: "dotenv", format: SopsFormat.env },
+  { label: "Binary", format: SopsFormat.binary },
+];
+
+async function exists(uri: vscode.Uri): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(uri);
+    return true;
+  } catch (_) {
+    return false;
+  }
+}
+
+/**
+ * Ask for confirmation if no creation rule in .sops.yaml matches `uri`, sops
+ * could still find keys from environment variables like `SOPS_AGE_RECIPIENTS`.
+ */
+async function confirmCreationRule(uri: vscode.Uri): Promise<boolean> {
+  if (await findCreationRule(uri)) {
+    return true;
+  }
+  const confirm = l10n.t("Continue");
+  const res = await vscode.window.showWarningMessage(
+    l10n.t(
+      "No creation rule in .sops.yaml matches {0}",
+      vscode.workspace.asRelativePath(uri)
+    ),
+    {
+      modal: true,
+      detail: l10n.t(
+        "Encryption fails unless keys are given by sops environment variables."
+      ),
+    },
+    confirm
+  );
+  return res === confirm;
+}
+
+/**
+ * Encrypt plaintext file in place, which is deleted on failure
+ */
+async function encryptFile(
+  provider: SopsFsProvider,
+  uri: vscode.Uri
+): Promise<boolean> {
+  try {
+    await execSops(
+      { ...provider.optsFor(uri), cwd: path.dirname(uri.fsPath) },
+      ["--encrypt", "--in-place", uri.fsPath],
+      true
+    );
+    return true;
+  } catch (e) {
+    await vscode.workspace.fs.delete(uri, { useTrash: false });
+    vscode.window.showErrorMessage(
+      l10n.t(
+        "Failed to encrypt {0}: {1}",
+        path.basename(uri.path),
+        ((e as ExecaError).stderr || String(e)).trim()
+      )
+    );
+    console.error("failed to encrypt file: " + e);
+    return false;
+  }
+}
+
+/**
+ * Create an empty SOPS file in `folder`, return its URI if created
+ */
+export async function newSopsFile(
+  provider: SopsFsProvider,
+  folder?: vscode.Uri
+): Promise<vscode.Uri | undefined> {
+  const dir = folder ?? (await vscode.window.showWorkspaceFolderPick())?.uri;
+  if (!dir) {
+    return;
+  } else if (dir.scheme !== "file") {
+    vscode.window.showErrorMessage(
+      l10n.t("SOPS files can only be created on local filesystem")
+    );
+    return;
+  }
+
+  const item = await vscode.window.showQuickPick(FORMAT_ITEMS, {
+    placeHolder: l10n.t("Format of SOPS file"),
+  });
+  if (!item) {
+    return;
+  }
+  const filename = await vscode.window.showInputBox({
+    prompt: l10n.t("Name of SOPS file"),
+    value:
+      item.format === SopsFormat.binary
+        ? "secrets.sops"
+        : "secrets.sops" + item.format,
+    valueSelection: [0, "secrets".length],
+    async validateInput(value) {
+      if (!value || value.includes("/") || value.includes("\\")) {
+        return l10n.t("Invalid filename");
+      } else if (await exists(vscode.Uri.joinPath(dir, value))) {
+        return l10n.t("File {0} already exists", value);
+      }
+    },
+  });
+  if (!filename) {
+    return;
+  }
+
+  const uri = vscode.Uri.joinPath(dir, filename);
+  if (!(await confirmCreationRule(uri))) {
+    return;
+  }
+  await vscode.workspace.fs.writeFile(
+    uri,
+    Buffer.from(EMPTY_DOCUMENTS[pathToFormat(filename)])
+  );
+  return (await encryptFile(provider, uri)) ? uri : undefined;
+}
+
+/**
+ * Encrypt plaintext file to `name.sops.ext` next to it and delete the
+ * plaintext file, return URI of SOPS file if encrypted
+ */
+export async function encryptInPlace(
+  provider: SopsFsProvider,
+  uri?: vscode.Uri
+): Promise<vscode.Uri | undefined> {
+  uri ??= vscode.window.activeTextEditor?.document.uri;
+  if (!uri) {
+    return;
+  } else if (uri.scheme !== "file") {
+    vscode.window.showErrorMessage(
+      l10n.t("Only files on local filesystem can be encrypted")
+    );
+    return;
+  }
+
+  const basename = path.basename(uri.path);
+  const sopsFilename = toSopsFilename(basename);
+  const target = vscode.Uri.joinPath(uri, "..", sopsFilename);
+  if (await exists(target)) {
+    vscode.window.showErrorMessage(
+      l10n.t("File {0} already exists", sopsFilename)
+    );
+    return;
+  }
+  const confirm = l10n.t("Encrypt");
+  const res = await vscode.window.showWarningMessage(
+    l10n.t("Encrypt {0} to {1}?", basename, sopsFilename),
+    {
+      modal: true,
+      detail: l10n.t("The plaintext file will be deleted."),
+    },
+    confirm
+  );
+  if (res !== confirm || !(await confirmCreationRule(target))) {
+    return;
+  }
+
+  await vscode.workspace.fs.copy(uri, target);
+  if (!(await encryptFile(provider, target))) {
+    return;
+  }
+  // never move plaintext secrets to trash
+  await vscode.workspace.fs.delete(uri, { useTrash: false });
+  return target;
+}
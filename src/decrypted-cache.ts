@@ -0,0 +1,136 @@
+import vscode from "vscode";
+import type { JsonObject } from "type-fest";
+
+export interface DecryptedFile {
+  // stat of SOPS file when it was decrypted
+  stat: vscode.FileStat;
+  // encrypted content of SOPS file when it was decrypted
+  encrypted: Uint8Array;
+  // direct decryption output
+  raw: Buffer;
+  tree: JsonObject | null;
+  // `sops` metadata parsed from encrypted content
+  metadata: JsonObject | null;
+}
+
+function sameStat(a: vscode.FileStat, b: vscode.FileStat): boolean {
+  return a.mtime === b.mtime && a.size === b.size;
+}
+
+/**
+ * Decrypted SOPS files shared by all `SopsFs` instances, an entry is only
+ * dropped if the SOPS file was actually changed.
+ */
+export class DecryptedCache implements vscode.Disposable {
+  private onDidInvalidateEmitter = new vscode.EventEmitter<vscode.Uri>();
+  onDidInvalidate = this.onDidInvalidateEmitter.event;
+  // fired when files are decrypted or dropped
+  private onDidChangeEmitter = new vscode.EventEmitter<void>();
+  onDidChange = this.onDidChangeEmitter.event;
+
+  private entries = new Map<string, DecryptedFile>();
+  private pending = new Map<string, Promise<DecryptedFile>>();
+  private currentGeneration = 0;
+
+  dispose() {
+    this.entries.clear();
+    this.onDidInvalidateEmitter.dispose();
+    this.onDidChangeEmitter.dispose();
+  }
+
+  /**
+   * Number of decrypted files held
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Bumped by `clear`, decryptions started in an earlier generation must not
+   * be kept
+   */
+  get generation(): number {
+    return this.currentGeneration;
+  }
+
+  /**
+   * Get decrypted file, `decrypt` is called at most once for concurrent
+   * requests of the same file.
+   */
+  async get(
+    sopsUri: vscode.Uri,
+    decrypt: (stat: vscode.FileStat) => Promise<DecryptedFile>
+  ): Promise<DecryptedFile> {
+    const key = sopsUri.toString();
+    const generation = this.generation;
+    const stat = await vscode.workspace.fs.stat(sopsUri);
+    const entry = this.entries.get(key);
+    if (entry && sameStat(entry.stat, stat)) {
+      return entry;
+    } else if (entry) {
+      this.invalidate(sopsUri);
+    }
+
+    if (generation !== this.generation) {
+      // requested before `clear`, not to be cached
+      return await decrypt(stat);
+    }
+
+    let pending = this.pending.get(key);
+    if (!pending) {
+      const started = decrypt(stat);
+      pending = started;
+      this.pending.set(key, started);
+      started
+        .then((entry) => {
+          if (generation === this.generation) {
+            this.entries.set(key, entry);
+            this.onDidChangeEmitter.fire();
+          }
+        })
+        .catch(() => {})
+        .finally(() => {
+          if (this.pending.get(key) === started) {
+            this.pending.delete(key);
+          }
+        });
+    }
+    return await pending;
+  }
+
+  /**
+   * Check SOPS file against cached stat and drop the entry if it was changed
+   */
+  async validate(sopsUri: vscode.Uri): Promise<void> {
+    const entry = this.entries.get(sopsUri.toString());
+    if (!entry) {
+      return;
+    }
+    let stat: vscode.FileStat | null = null;
+    try {
+      stat = await vscode.workspace.fs.stat(sopsUri);
+    } catch (_) {}
+    if (!stat || !sameStat(entry.stat, stat)) {
+      this.invalidate(sopsUri);
+    }
+  }
+
+  invalidate(sopsUri: vscode.Uri) {
+    if (this.entries.delete(sopsUri.toString())) {
+      this.onDidInvalidateEmitter.fire(sopsUri);
+      this.onDidChangeEmitter.fire();
+    }
+  }
+
+  /**
+   * Drop all decrypted files, whether changed or not, including those being
+   * decrypted right now
+   */
+  clear() {
+    this.currentGeneration++;
+    this.pending.clear();
+    for (const key of [...this.entries.keys()]) {
+      this.invalidate(vscode.Uri.parse(key));
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import vscode from "vscode";
+import { l10n } from "vscode";
+import { SopsFsProvider } from "./sopsfs-provider";
+import { parseEmbeddedDocument } from "./sops-format";
+
+const EXPANDED_KEY = "sopsfs.expandedDocuments";
+
+/**
+ * Key paths of string values expanded as embedded JSON/YAML documents, per
+ * SOPS file
+ */
+export class EmbeddedDocuments implements vscode.Disposable {
+  private onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  // fired with SOPS file whose expanded key paths changed
+  onDidChange = this.onDidChangeEmitter.event;
+
+  constructor(private state: vscode.Memento) {}
+
+  dispose() {
+    this.onDidChangeEmitter.dispose();
+  }
+
+  private get expanded(): Record<string, string[]> {
+    return this.state.get<Record<string, string[]>>(EXPANDED_KEY, {});
+  }
+
+  isExpanded(sopsFile: vscode.Uri, path: string[]): boolean {
+    return !!this.expanded[sopsFile.toString()]?.includes(JSON.stringify(path));
+  }
+
+  async toggle(sopsFile: vscode.Uri, path: string[]) {
+    const key = sopsFile.toString();
+    const pathKey = JSON.stringify(path);
+    const paths = this.expanded[key] ?? [];
+    const expanded = {
+      ...this.expanded,
+      [key]: paths.includes(pathKey)
+        ? paths.filter((i) => i !== pathKey)
+        : [...paths, pathKey],
+    };
+    if (!expanded[key].length) {
+      delete expanded[key];
+    }
+    await this.state.update(EXPANDED_KEY, expanded);
+    this.onDidChangeEmitter.fire(sopsFile);
+  }
+}
+
+/**
+ * Expand string value at `uri` of mounted SOPS file as embedded document, or
+ * collapse it back to a file
+ */
+export async function toggleEmbeddedDocument(
+  provider: SopsFsProvider,
+  embedded: EmbeddedDocuments,
+  uri: vscode.Uri
+) {
+  const { sopsFile } = SopsFsProvider.parseUri(uri);
+  const path = await provider.keyPath(uri);
+  if (!path.length) {
+    return;
+  }
+  if (!embedded.isExpanded(sopsFile, path)) {
+    const content = Buffer.from(await provider.readFile(uri)).toString();
+    if (!parseEmbeddedDocument(content)) {
+      vscode.window.showWarningMessage(
+        l10n.t("Value of {0} is not a JSON or YAML dictionary", path.join("/"))
+      );
+      return;
+    }
+  }
+  await embedded.toggle(sopsFile, path);
+}
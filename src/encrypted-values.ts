@@ -0,0 +1,151 @@
+import vscode from "vscode";
+import { l10n } from "vscode";
+import { SopsFsProvider } from "./sopsfs-provider";
+import { SopsFileDetector } from "./sops-files";
+import { detectSopsFormat } from "./sops-detect";
+import { LeafLocation, locateLeaves, pathToFormat } from "./sops-format";
+
+export const REVEAL_VALUE_COMMAND = "sopsfs.revealEncryptedValue";
+export const EDIT_VALUE_COMMAND = "sopsfs.editEncryptedValue";
+const MASKED_VALUE = "••••••••";
+
+function commandLink(command: string, args: unknown[]): string {
+  return `command:${command}?${encodeURIComponent(JSON.stringify(args))}`;
+}
+
+/**
+ * Hover peeking decrypted value of `ENC[...]` in encrypted SOPS files, and
+ * CodeLens opening each value of mounted SOPS file for editing
+ */
+export class EncryptedValueProvider
+  implements vscode.HoverProvider, vscode.CodeLensProvider
+{
+  // value shown in plain on next hover, by document URI and key path
+  private revealed: string | null = null;
+
+  constructor(
+    private provider: SopsFsProvider,
+    private detector?: SopsFileDetector
+  ) {}
+
+  private isSopsDocument(document: vscode.TextDocument): boolean {
+    return (
+      document.languageId === "sops" ||
+      !!this.detector?.isDetected(document.uri)
+    );
+  }
+
+  private leaves(document: vscode.TextDocument): LeafLocation[] {
+    const content = document.getText();
+    const format = detectSopsFormat(content) ?? pathToFormat(document.uri.path);
+    try {
+      return locateLeaves(format, content);
+    } catch (_) {
+      return [];
+    }
+  }
+
+  async provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.Hover | undefined> {
+    if (!this.isSopsDocument(document)) {
+      return;
+    }
+    const offset = document.offsetAt(position);
+    const leaf = this.leaves(document).find(
+      (i) => i.start <= offset && offset <= i.end && i.value.startsWith("ENC[")
+    );
+    if (!leaf) {
+      return;
+    }
+    const args = [document.uri.toString(), leaf.keyPath];
+    const reveal = this.revealed === JSON.stringify(args);
+    this.revealed = null;
+
+    const md = new vscode.MarkdownString();
+    md.isTrusted = {
+      enabledCommands: [REVEAL_VALUE_COMMAND, EDIT_VALUE_COMMAND],
+    };
+    let value: string | null = null;
+    if (reveal) {
+      // e.g. locked or failed to decrypt, falls back to masked value
+      try {
+        const uri = await this.provider.leafUri(document.uri, leaf.keyPath);
+        value = Buffer.from(await this.provider.readFile(uri)).toString();
+      } catch (e) {
+        console.error("failed to reveal value: " + e);
+      }
+    }
+    if (value !== null) {
+      md.appendCodeblock(value);
+    } else {
+      md.appendMarkdown(
+        `\`${MASKED_VALUE}\` [${l10n.t("Reveal")}](${commandLink(
+          REVEAL_VALUE_COMMAND,
+          [...args, leaf.start]
+        )}) · `
+      );
+    }
+    md.appendMarkdown(
+      `[${l10n.t("Edit value")}](${commandLink(EDIT_VALUE_COMMAND, args)})`
+    );
+    return new vscode.Hover(
+      md,
+      new vscode.Range(
+        document.positionAt(leaf.start),
+        document.positionAt(leaf.end)
+      )
+    );
+  }
+
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    if (!this.isSopsDocument(document)) {
+      return [];
+    }
+    return this.leaves(document).map(({ keyPath, start }) => {
+      const position = document.positionAt(start);
+      return new vscode.CodeLens(new vscode.Range(position, position), {
+        title: l10n.t("Edit value"),
+        tooltip: keyPath.join("/"),
+        command: EDIT_VALUE_COMMAND,
+        arguments: [document.uri.toString(), keyPath],
+      });
+    });
+  }
+
+  /**
+   * Show hover of value at `offset` of `sopsFile` again, with the decrypted
+   * value in plain
+   */
+  async reveal(sopsFile: string, keyPath: string[], offset: number) {
+    const editor = vscode.window.visibleTextEditors.find(
+      (i) => i.document.uri.toString() === sopsFile
+    );
+    if (!editor) {
+      return;
+    }
+    this.revealed = JSON.stringify([sopsFile, keyPath]);
+    // the hover is shown at the cursor
+    const position = editor.document.positionAt(offset);
+    editor.selection = new vscode.Selection(position, position);
+    await vscode.commands.executeCommand("editor.action.showHover");
+  }
+
+  /**
+   * Open value at `keyPath` of mounted `sopsFile` for editing
+   */
+  async edit(sopsFile: string, keyPath: string[]) {
+    try {
+      const uri = await this.provider.leafUri(
+        vscode.Uri.parse(sopsFile),
+        keyPath
+      );
+      await vscode.window.showTextDocument(uri, { preview: false });
+    } catch (e) {
+      vscode.window.showErrorMessage(
+        l10n.t("Failed to open {0}: {1}", keyPath.join("/"), String(e))
+      );
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import vscode from "vscode";
+import { l10n } from "vscode";
+import path from "path";
+import { SopsFsProvider } from "./sopsfs-provider";
+import { decodeKeyName } from "./key-path";
+
+/**
+ * Marks leaves of mounted SOPS files stored in plaintext by encryption rules
+ * of SOPS metadata, e.g. `unencrypted_suffix` or `encrypted_regex`
+ */
+export class EncryptionDecorations
+  implements vscode.FileDecorationProvider, vscode.Disposable
+{
+  private onDidChangeEmitter = new vscode.EventEmitter<
+    vscode.Uri | vscode.Uri[] | undefined
+  >();
+  onDidChangeFileDecorations = this.onDidChangeEmitter.event;
+
+  private subscriptions: vscode.Disposable[] = [];
+
+  constructor(private provider: SopsFsProvider) {
+    this.subscriptions.push(
+      // metadata may change along with any value
+      provider.onDidChangeFile(() => this.onDidChangeEmitter.fire(undefined))
+    );
+  }
+
+  dispose() {
+    this.subscriptions.forEach((i) => i.dispose());
+    this.onDidChangeEmitter.dispose();
+  }
+
+  async provideFileDecoration(
+    uri: vscode.Uri
+  ): Promise<vscode.FileDecoration | undefined> {
+    if (uri.scheme !== "sops") {
+      return;
+    }
+    let encrypted: boolean | undefined;
+    try {
+      encrypted = (await this.provider.encryption(uri))?.encrypted;
+    } catch (_) {
+      return;
+    }
+    if (encrypted === false) {
+      return {
+        badge: "P",
+        color: new vscode.ThemeColor("list.warningForeground"),
+        tooltip: l10n.t("Stored in plaintext"),
+      };
+    } else if (encrypted) {
+      return { tooltip: l10n.t("Encrypted") };
+    }
+  }
+}
+
+/**
+ * Rename leaf at `uri` by adding or removing `encrypted_suffix` or
+ * `unencrypted_suffix` so that it's encrypted if it's not or vice versa
+ */
+export async function toggleEncryption(
+  provider: SopsFsProvider,
+  uri: vscode.Uri
+) {
+  const name = decodeKeyName(path.posix.basename(uri.path));
+  const encryption = await provider.encryption(uri);
+  if (!encryption) {
+    vscode.window.showWarningMessage(
+      l10n.t("{0} is not a value of SOPS file with encryption rules", name)
+    );
+    return;
+  } else if (!encryption.toggledName) {
+    vscode.window.showWarningMessage(
+      encryption.encrypted
+        ? l10n.t(
+            "{0} can't be stored in plaintext by renaming it, see encryption rules in SOPS metadata",
+            name
+          )
+        : l10n.t(
+            "{0} can't be encrypted by renaming it, see encryption rules in SOPS metadata",
+            name
+          )
+    );
+    return;
+  }
+  try {
+    await provider.rename(
+      uri,
+      vscode.Uri.joinPath(uri, "..", encryption.toggledName),
+      { overwrite: false }
+    );
+  } catch (e) {
+    vscode.window.showErrorMessage(
+      l10n.t("Failed to rename key {0}: {1}", name, String(e))
+    );
+  }
+}
@@ -0,0 +1,183 @@
+import vscode from "vscode";
+import { l10n } from "vscode";
+import os from "os";
+import path from "path";
+import { SopsFsProvider } from "./sopsfs-provider";
+import { sopsFileOf } from "./profiles";
+import { substituteVariables } from "./config";
+import { parseEnvPath, secretEnvOf } from "./secret-env";
+
+export const SOPS_TASK_TYPE = "sops";
+
+interface SopsTaskDefinition extends vscode.TaskDefinition {
+  // SOPS file, relative to workspace folder of the task
+  file: string;
+  // subtree of secrets, keys separated by `/`
+  path?: string;
+  command: string;
+  args?: string[];
+}
+
+// `sopsEnv` of launch configurations
+type SopsEnvReference = string | { file: string; path?: string };
+
+/**
+ * Decrypt `sopsFile` in memory and flatten value at `keyPath` into
+ * environment variables
+ */
+async function secretEnv(
+  provider: SopsFsProvider,
+  sopsFile: vscode.Uri,
+  keyPath: string[]
+): Promise<Record<string, string>> {
+  const { tree } = await provider.decryptContent(
+    sopsFile,
+    await vscode.workspace.fs.readFile(sopsFile)
+  );
+  return secretEnvOf(tree, keyPath);
+}
+
+/**
+ * Resolve `file` of task or launch configuration, relative to `folder` or
+ * the first workspace folder
+ */
+function resolveSopsFile(
+  file: string,
+  folder: vscode.WorkspaceFolder | undefined
+): vscode.Uri {
+  folder ??= vscode.workspace.workspaceFolders?.[0];
+  const resolved = substituteVariables(file, {
+    workspaceFolder: folder?.uri.fsPath,
+    workspaceFolders: Object.fromEntries(
+      (vscode.workspace.workspaceFolders ?? []).map((i) => [
+        i.name,
+        i.uri.fsPath,
+      ])
+    ),
+    env: process.env,
+    userHome: os.homedir(),
+  });
+  if (path.isAbsolute(resolved) || !folder) {
+    return vscode.Uri.file(resolved);
+  }
+  return vscode.Uri.joinPath(folder.uri, resolved);
+}
+
+/**
+ * Open terminal with secrets of SOPS file or mounted subtree at `uri` as
+ * environment variables, which are never written to disk
+ */
+export async function openSecretsTerminal(
+  provider: SopsFsProvider,
+  uri: vscode.Uri
+) {
+  const sopsFile = sopsFileOf(uri);
+  try {
+    const keyPath = uri.scheme === "sops" ? await provider.keyPath(uri) : [];
+    const env = await secretEnv(provider, sopsFile, keyPath);
+    const name = [path.basename(sopsFile.path), ...keyPath].join("/");
+    const terminal = vscode.window.createTerminal({
+      name: l10n.t("Secrets of {0}", name),
+      cwd:
+        sopsFile.scheme === "file" ? path.dirname(sopsFile.fsPath) : undefined,
+      env,
+      // not persisted with the secrets when the window is reloaded
+      isTransient: true,
+    });
+    terminal.show();
+  } catch (e) {
+    vscode.window.showErrorMessage(
+      l10n.t("Failed to decrypt secrets of {0}", path.basename(sopsFile.path))
+    );
+    console.error("failed to open terminal with secrets: " + e);
+  }
+}
+
+/**
+ * Tasks of type `sops` running `command` with secrets of `file` as
+ * environment variables
+ */
+export class SopsTaskProvider implements vscode.TaskProvider {
+  constructor(private provider: SopsFsProvider) {}
+
+  provideTasks(): vscode.Task[] {
+    return [];
+  }
+
+  async resolveTask(task: vscode.Task): Promise<vscode.Task | undefined> {
+    const definition = task.definition as SopsTaskDefinition;
+    if (!definition.file || !definition.command) {
+      return undefined;
+    }
+    const folder = typeof task.scope === "object" ? task.scope : undefined;
+    let env: Record<string, string>;
+    try {
+      env = await secretEnv(
+        this.provider,
+        resolveSopsFile(definition.file, folder),
+        parseEnvPath(definition.path)
+      );
+    } catch (e) {
+      vscode.window.showErrorMessage(
+        l10n.t("Failed to decrypt secrets of {0}", definition.file)
+      );
+      console.error("failed to resolve sops task: " + e);
+      return undefined;
+    }
+    const options: vscode.ShellExecutionOptions = {
+      env,
+      cwd: folder?.uri.fsPath,
+    };
+    const execution = definition.args
+      ? new vscode.ShellExecution(definition.command, definition.args, options)
+      : new vscode.ShellExecution(definition.command, options);
+    return new vscode.Task(
+      definition,
+      task.scope ?? vscode.TaskScope.Workspace,
+      task.name,
+      SOPS_TASK_TYPE,
+      execution,
+      task.problemMatchers
+    );
+  }
+}
+
+/**
+ * Add secrets of SOPS files referenced by `sopsEnv` to `env` of launch
+ * configurations of any type, values in `env` take precedence
+ */
+export class SopsEnvDebugConfigurationProvider
+  implements vscode.DebugConfigurationProvider
+{
+  constructor(private provider: SopsFsProvider) {}
+
+  async resolveDebugConfigurationWithSubstitutedVariables(
+    folder: vscode.WorkspaceFolder | undefined,
+    config: vscode.DebugConfiguration
+  ): Promise<vscode.DebugConfiguration | undefined> {
+    const refs = [config.sopsEnv ?? []].flat() as SopsEnvReference[];
+    if (!refs.length) {
+      return config;
+    }
+    const env: Record<string, string> = {};
+    for (const ref of refs) {
+      const { file, path: subtree } =
+        typeof ref === "string" ? { file: ref, path: undefined } : ref;
+      const sopsFile = resolveSopsFile(file, folder);
+      try {
+        Object.assign(
+          env,
+          await secretEnv(this.provider, sopsFile, parseEnvPath(subtree))
+        );
+      } catch (e) {
+        vscode.window.showErrorMessage(
+          l10n.t("Failed to decrypt secrets of {0}", file)
+        );
+        console.error("failed to resolve sopsEnv: " + e);
+        // abort launching
+        return undefined;
+      }
+    }
+    return { ...config, env: { ...env, ...config.env } };
+  }
+}
@@ -1,54 +1,52 @@
 import vscode from "vscode";
 import { l10n } from "vscode";
 import { SopsFsProvider } from "./sopsfs-provider";
+import { rotateDataKey, updateKeys } from "./key-commands";
+import { encryptInPlace, newSopsFile } from "./create-commands";
+import { SopsEditorProvider } from "./sops-editor";
+import { GIT_REVISION_SCHEME, GitRevisionProvider } from "./git-revision";
+import { compareWithHead, compareWithRevision } from "./compare-commands";
+import { SopsFileDetector } from "./sops-files";
+import {
+  SECRETS_VIEW_ID,
+  SecretNode,
+  SecretsViewProvider,
+  nodeUri,
+} from "./secrets-view";
+import { MountTracker, mount, mountAll, unmount, unmountAll } from "./mounts";
+import { DecryptedStatusBar } from "./status-bar";
+import { sopsOptions } from "./config";
+import { ProfileManager, sopsFileOf } from "./profiles";
+import { EmbeddedDocuments, toggleEmbeddedDocument } from "./embedded-docs";
+import {
+  EncryptionDecorations,
+  toggleEncryption,
+} from "./encryption-decorations";
+import {
+  EDIT_VALUE_COMMAND,
+  EncryptedValueProvider,
+  REVEAL_VALUE_COMMAND,
+} from "./encrypted-values";
+import { SnapshotStore, restoreSnapshot } from "./snapshots";
+import { AutoLock, lockAllNow } from "./auto-lock";
+import {
+  SOPS_TASK_TYPE,
+  SopsEnvDebugConfigurationProvider,
+  SopsTaskProvider,
+  openSecretsTerminal,
+} from "./env-commands";
 import which from "which";
-import path from "path";
-
-async function mount(uri: vscode.Uri) {
-  const sopsUri = SopsFsProvider.composeUri(uri);
-  const basename = path.basename(uri.path);
-  try {
-    await vscode.workspace.fs.stat(sopsUri);
-  } catch (e) {
-    vscode.window.showErrorMessage(
-      l10n.t("Mounting failed, {0} might not be a valid SOPS file", basename)
-    );
-    console.error("failed to read sops file: " + e);
-    return;
-  }
-  if (vscode.workspace.getWorkspaceFolder(sopsUri) === undefined) {
-    vscode.workspace.updateWorkspaceFolders(0, 0, {
-      name: "sops:" + basename,
-      uri: sopsUri,
-    });
-  } else {
-    vscode.window.showWarningMessage(
-      l10n.t("Already mounted SOPS file {0}", basename)
-    );
-  }
-}
-
-async function unmount(uri: vscode.Uri) {
-  const sopsUri = SopsFsProvider.composeUri(uri);
-  const basename = path.basename(uri.path);
-  const folder = vscode.workspace.getWorkspaceFolder(sopsUri);
-  if (folder) {
-    vscode.workspace.updateWorkspaceFolders(folder.index, 1);
-  } else {
-    vscode.window.showWarningMessage(
-      l10n.t("SOPS file {0} not mounted", basename)
-    );
-  }
-}
 
 export function activate(context: vscode.ExtensionContext) {
   const config = vscode.workspace.getConfiguration();
-  const sopsCmd =
-    (config.get("sopsfs.sopsCommand") as string | undefined) || "sops";
-  const env = config.get("sopsfs.env") as object | undefined;
+  const detectFiles = config.get("sopsfs.detectFiles") !== false;
+  const restoreMounts = config.get("sopsfs.restoreMounts") !== false;
+  const { sopsCmd, backend } = sopsOptions();
 
   try {
-    which.sync(sopsCmd);
+    if (backend !== "builtin") {
+      which.sync(sopsCmd);
+    }
   } catch (e) {
     vscode.window.showErrorMessage(
       l10n.t(
@@ -58,22 +56,191 @@ export function activate(context: vscode.ExtensionContext) {
     );
   }
 
+  const profiles = new ProfileManager(context.workspaceState);
+  const embedded = new EmbeddedDocuments(context.workspaceState);
+  const snapshots = new SnapshotStore(context.globalStorageUri);
+  const provider = new SopsFsProvider(
+    (sopsFile) => profiles.optionsFor(sopsFile),
+    embedded,
+    snapshots
+  );
+
+  context.subscriptions.push(
+    profiles,
+    vscode.window.registerFileDecorationProvider(profiles),
+    vscode.commands.registerCommand("sopsfs.pickProfile", async (uri) => {
+      uri ??= vscode.window.activeTextEditor?.document.uri;
+      if (!uri) {
+        return;
+      }
+      const sopsFile = sopsFileOf(uri);
+      if (await profiles.pick(sopsFile)) {
+        provider.reloadOpts((i) => i.toString() === sopsFile.toString());
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    embedded,
+    embedded.onDidChange((sopsFile) =>
+      provider.reloadOpts((i) => i.toString() === sopsFile.toString())
+    ),
+    vscode.commands.registerCommand(
+      "sopsfs.toggleEmbeddedDocument",
+      (target: vscode.Uri | SecretNode) =>
+        toggleEmbeddedDocument(
+          provider,
+          embedded,
+          target instanceof vscode.Uri ? target : nodeUri(target)
+        )
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("sopsfs.restoreSnapshot", (uri) => {
+      uri ??= vscode.window.activeTextEditor?.document.uri;
+      if (uri) {
+        restoreSnapshot(provider, snapshots, sopsFileOf(uri));
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    new AutoLock(provider),
+    provider.onDidChangeLock(() =>
+      vscode.commands.executeCommand(
+        "setContext",
+        "sopsfs.locked",
+        provider.isLocked
+      )
+    ),
+    vscode.commands.registerCommand("sopsfs.lockAll", () =>
+      lockAllNow(provider)
+    ),
+    vscode.commands.registerCommand("sopsfs.unlock", () => provider.unlock())
+  );
+
+  context.subscriptions.push(
+    vscode.tasks.registerTaskProvider(
+      SOPS_TASK_TYPE,
+      new SopsTaskProvider(provider)
+    ),
+    vscode.debug.registerDebugConfigurationProvider(
+      "*",
+      new SopsEnvDebugConfigurationProvider(provider)
+    ),
+    vscode.commands.registerCommand(
+      "sopsfs.openSecretsTerminal",
+      (target?: vscode.Uri | SecretNode) => {
+        const uri =
+          target instanceof vscode.Uri
+            ? target
+            : target
+            ? nodeUri(target)
+            : vscode.window.activeTextEditor?.document.uri;
+        if (uri) {
+          openSecretsTerminal(provider, uri);
+        }
+      }
+    )
+  );
+
+  const encryptionDecorations = new EncryptionDecorations(provider);
+  context.subscriptions.push(
+    encryptionDecorations,
+    vscode.window.registerFileDecorationProvider(encryptionDecorations),
+    vscode.commands.registerCommand(
+      "sopsfs.toggleEncryption",
+      (target: vscode.Uri | SecretNode) =>
+        toggleEncryption(
+          provider,
+          target instanceof vscode.Uri ? target : nodeUri(target)
+        )
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("sopsfs")) {
+        provider.reloadOpts((sopsFile) =>
+          e.affectsConfiguration("sopsfs", sopsFile)
+        );
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.workspace.registerFileSystemProvider("sops", provider, {
+      isCaseSensitive: true,
+      isReadonly: false,
+    })
+  );
+
   context.subscriptions.push(
     vscode.workspace.registerFileSystemProvider(
-      "sops",
-      new SopsFsProvider({
-        sopsCmd,
-        env: {
-          ...env,
-        },
-      }),
+      GIT_REVISION_SCHEME,
+      new GitRevisionProvider(),
       {
         isCaseSensitive: true,
-        isReadonly: false,
+        isReadonly: true,
       }
     )
   );
 
+  const tracker = new MountTracker(context.workspaceState);
+  context.subscriptions.push(tracker, new DecryptedStatusBar(provider));
+  tracker.restore(restoreMounts);
+
+  const detector = detectFiles ? new SopsFileDetector() : undefined;
+  if (detector) {
+    context.subscriptions.push(detector);
+    detector.scan();
+  }
+
+  const secretsView = new SecretsViewProvider(provider, detector);
+  context.subscriptions.push(
+    secretsView,
+    vscode.window.registerTreeDataProvider(SECRETS_VIEW_ID, secretsView),
+    vscode.commands.registerCommand("sopsfs.secrets.refresh", () =>
+      secretsView.refresh()
+    ),
+    vscode.commands.registerCommand("sopsfs.secrets.newKey", (node) =>
+      secretsView.newKey(node)
+    ),
+    vscode.commands.registerCommand("sopsfs.secrets.rename", (node) =>
+      secretsView.rename(node)
+    ),
+    vscode.commands.registerCommand("sopsfs.secrets.delete", (node) =>
+      secretsView.delete(node)
+    )
+  );
+
+  const encryptedValues = new EncryptedValueProvider(provider, detector);
+  context.subscriptions.push(
+    vscode.languages.registerHoverProvider({ scheme: "file" }, encryptedValues),
+    vscode.languages.registerCodeLensProvider(
+      { scheme: "file" },
+      encryptedValues
+    ),
+    vscode.commands.registerCommand(
+      REVEAL_VALUE_COMMAND,
+      (sopsFile: string, keyPath: string[], offset: number) =>
+        encryptedValues.reveal(sopsFile, keyPath, offset)
+    ),
+    vscode.commands.registerCommand(
+      EDIT_VALUE_COMMAND,
+      (sopsFile: string, keyPath: string[]) =>
+        encryptedValues.edit(sopsFile, keyPath)
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.window.registerCustomEditorProvider(
+      SopsEditorProvider.viewType,
+      new SopsEditorProvider()
+    )
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand("sopsfs.mountSopsFile", (uri) => mount(uri))
   );
@@ -84,12 +251,61 @@ export function activate(context: vscode.ExtensionContext) {
     )
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand("sopsfs.unmountAll", () => unmountAll())
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("sopsfs.mountAllInFolder", (uri) =>
+      mountAll(uri, detector)
+    )
+  );
+
   context.subscriptions.push(
     vscode.commands.registerTextEditorCommand(
       "sopsfs.mountSopsEditor",
       (editor) => mount(editor.document.uri)
     )
   );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("sopsfs.newSopsFile", async (uri) => {
+      const sopsFile = await newSopsFile(provider, uri);
+      if (sopsFile) {
+        await mount(sopsFile);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("sopsfs.encryptInPlace", (uri) =>
+      encryptInPlace(provider, uri)
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("sopsfs.compareWithHead", (uri) =>
+      compareWithHead(uri)
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("sopsfs.compareWithRevision", (uri) =>
+      compareWithRevision(uri)
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("sopsfs.updateKeys", (uri, uris) =>
+      updateKeys(provider, uri, uris)
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("sopsfs.rotateDataKey", (uri, uris) =>
+      rotateDataKey(provider, uri, uris)
+    )
+  );
 }
 
 export function deactivate() {}
@@ -0,0 +1,144 @@
+import vscode from "vscode";
+import LRUCache from "lru-cache";
+import { execa } from "execa";
+import path from "path";
+
+export const GIT_REVISION_SCHEME = "sops-git";
+
+export interface GitRevision {
+  // full commit hash
+  ref: string;
+  shortRef: string;
+  subject: string;
+  date: string;
+}
+
+async function execGit(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await execa("git", args, { cwd });
+  return stdout;
+}
+
+/**
+ * Resolve `ref` of git repository containing local file `fileUri` to commit
+ * hash, so content at the revision never changes
+ */
+export async function resolveRevision(
+  fileUri: vscode.Uri,
+  ref: string
+): Promise<string> {
+  return await execGit(path.dirname(fileUri.fsPath), [
+    "rev-parse",
+    "--verify",
+    `${ref}^{commit}`,
+  ]);
+}
+
+/**
+ * Recent commits changing local file `fileUri`
+ */
+export async function listRevisions(
+  fileUri: vscode.Uri,
+  maxCount = 50
+): Promise<GitRevision[]> {
+  const stdout = await execGit(path.dirname(fileUri.fsPath), [
+    "log",
+    `--max-count=${maxCount}`,
+    "--format=%H%x00%h%x00%s%x00%ar",
+    "--",
+    "./" + path.basename(fileUri.fsPath),
+  ]);
+  return stdout
+    .split("\n")
+    .filter((line) => !!line)
+    .map((line) => {
+      const [ref, shortRef, subject, date] = line.split("\0");
+      return { ref, shortRef, subject, date };
+    });
+}
+
+/**
+ * Read-only filesystem serving content of local files at git revisions,
+ * `sops-git:<file path>?<commit hash>`, used as source of SOPS files when
+ * decrypting them at a revision.
+ */
+export class GitRevisionProvider implements vscode.FileSystemProvider {
+  private onDidChangeEmitter = new vscode.EventEmitter<
+    vscode.FileChangeEvent[]
+  >();
+  onDidChangeFile = this.onDidChangeEmitter.event;
+
+  // content at a commit hash never changes
+  private blobs = new LRUCache<string, Uint8Array>({ max: 32 });
+
+  static composeUri(fileUri: vscode.Uri, ref: string): vscode.Uri {
+    return vscode.Uri.from({
+      scheme: GIT_REVISION_SCHEME,
+      path: fileUri.path,
+      query: ref,
+    });
+  }
+
+  private async readBlob(uri: vscode.Uri): Promise<Uint8Array> {
+    const key = uri.toString();
+    let blob = this.blobs.get(key);
+    if (!blob) {
+      const fsPath = vscode.Uri.file(uri.path).fsPath;
+      try {
+        const { stdout } = await execa(
+          "git",
+          ["show", `${uri.query}:./${path.basename(fsPath)}`],
+          {
+            cwd: path.dirname(fsPath),
+            encoding: null,
+            stripFinalNewline: false,
+          }
+        );
+        blob = new Uint8Array(stdout);
+      } catch (e) {
+        console.error(`git show ${uri}: ` + e);
+        throw vscode.FileSystemError.FileNotFound(uri);
+      }
+      this.blobs.set(key, blob);
+    }
+    return blob;
+  }
+
+  watch(): vscode.Disposable {
+    return new vscode.Disposable(() => {});
+  }
+
+  async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+    const blob = await this.readBlob(uri);
+    return {
+      type: vscode.FileType.File,
+      ctime: 0,
+      mtime: 0,
+      size: blob.length,
+      permissions: vscode.FilePermission.Readonly,
+    };
+  }
+
+  async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+    throw vscode.FileSystemError.FileNotADirectory(uri);
+  }
+
+  async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+    return await this.readBlob(uri);
+  }
+
+  createDirectory(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  writeFile(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  delete(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  rename(oldUri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(oldUri);
+  }
+}
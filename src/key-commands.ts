@@ -0,0 +1,213 @@
+import vscode from "vscode";
+import { l10n } from "vscode";
+import path from "path";
+import type { ExecaError } from "execa";
+import { SopsFsProvider } from "./sopsfs-provider";
+import { execSops } from "./sops-cmd";
+import { findCreationRule, ruleRecipients } from "./sops-config";
+import { findSopsFiles } from "./sops-files";
+import { detectFileFormat } from "./sops-detect";
+import { listRecipients, parseSopsMetadata, Recipient } from "./sops-metadata";
+
+interface KeyChange {
+  uri: vscode.Uri;
+  added: Recipient[];
+  removed: Recipient[];
+  // .sops.yaml has no creation rule for the file
+  noRule: boolean;
+}
+
+function recipientKey({ group, type, id }: Recipient): string {
+  return `${group}\0${type}\0${id}`;
+}
+
+function recipientLabel({ group, type, id }: Recipient): string {
+  const label = `${type}: ${id}`;
+  return group === null ? label : `[${group + 1}] ${label}`;
+}
+
+/**
+ * Files to run key commands on, folders are expanded to SOPS files in it
+ */
+async function resolveTargets(
+  uri?: vscode.Uri,
+  uris?: vscode.Uri[]
+): Promise<vscode.Uri[]> {
+  let selected = uris?.length ? uris : uri ? [uri] : [];
+  if (!selected.length && vscode.window.activeTextEditor) {
+    selected = [vscode.window.activeTextEditor.document.uri];
+  }
+  const res = new Map<string, vscode.Uri>();
+  for (const item of selected) {
+    const stat = await vscode.workspace.fs.stat(item);
+    const files =
+      stat.type & vscode.FileType.Directory
+        ? await findSopsFiles(item)
+        : [item];
+    for (const file of files) {
+      res.set(file.toString(), file);
+    }
+  }
+  // sops command only works on local files
+  return [...res.values()].filter((i) => i.scheme === "file");
+}
+
+async function previewKeyChange(uri: vscode.Uri): Promise<KeyChange> {
+  const encrypted = Buffer.from(
+    await vscode.workspace.fs.readFile(uri)
+  ).toString();
+  const metadata = parseSopsMetadata(await detectFileFormat(uri), encrypted);
+  const current = metadata ? listRecipients(metadata) : [];
+  const creationRule = await findCreationRule(uri);
+  if (!creationRule) {
+    return { uri, added: [], removed: [], noRule: true };
+  }
+  const expected = ruleRecipients(creationRule.rule);
+  const currentKeys = new Set(current.map(recipientKey));
+  const expectedKeys = new Set(expected.map(recipientKey));
+  return {
+    uri,
+    added: expected.filter((i) => !currentKeys.has(recipientKey(i))),
+    removed: current.filter((i) => !expectedKeys.has(recipientKey(i))),
+    noRule: false,
+  };
+}
+
+function renderKeyChange(change: KeyChange): string {
+  const lines = [vscode.workspace.asRelativePath(change.uri)];
+  if (change.noRule) {
+    lines.push("  " + l10n.t("no matching creation rule in .sops.yaml"));
+  } else if (!change.added.length && !change.removed.length) {
+    lines.push("  " + l10n.t("recipients unchanged"));
+  }
+  lines.push(...change.added.map((i) => "  + " + recipientLabel(i)));
+  lines.push(...change.removed.map((i) => "  - " + recipientLabel(i)));
+  return lines.join("\n");
+}
+
+async function runOnFiles(
+  provider: SopsFsProvider,
+  uris: vscode.Uri[],
+  title: string,
+  args: (file: string) => string[]
+) {
+  const failed: string[] = [];
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title,
+      cancellable: true,
+    },
+    async (progress, token) => {
+      for (const uri of uris) {
+        if (token.isCancellationRequested) {
+          break;
+        }
+        progress.report({
+          message: path.basename(uri.path),
+          increment: 100 / uris.length,
+        });
+        try {
+          await execSops(
+            { ...provider.optsFor(uri), cwd: path.dirname(uri.fsPath) },
+            args(uri.fsPath),
+            true
+          );
+        } catch (e) {
+          failed.push(path.basename(uri.path));
+          console.error(
+            `sops ${args(uri.fsPath).join(" ")}: ` +
+              ((e as ExecaError).stderr || e)
+          );
+        } finally {
+          provider.invalidate(uri);
+        }
+      }
+    }
+  );
+  if (failed.length) {
+    vscode.window.showErrorMessage(
+      l10n.t("Failed to run sops on {0}", failed.join(", "))
+    );
+  }
+}
+
+/**
+ * Update recipients of SOPS files to the ones of matching creation rules in
+ * .sops.yaml, i.e. `sops updatekeys`
+ */
+export async function updateKeys(
+  provider: SopsFsProvider,
+  uri?: vscode.Uri,
+  uris?: vscode.Uri[]
+) {
+  const targets = await resolveTargets(uri, uris);
+  if (!targets.length) {
+    vscode.window.showWarningMessage(l10n.t("No SOPS file found"));
+    return;
+  }
+  const changes = await Promise.all(targets.map(previewKeyChange));
+  const pending = changes.filter(
+    (i) => !i.noRule && (i.added.length || i.removed.length)
+  );
+  if (!pending.length) {
+    vscode.window.showInformationMessage(
+      l10n.t("Recipients of SOPS files are up to date with .sops.yaml")
+    );
+    return;
+  }
+  const confirm = l10n.t("Update Keys");
+  const res = await vscode.window.showWarningMessage(
+    l10n.t("Update recipients of {0} SOPS file(s)?", pending.length),
+    { modal: true, detail: changes.map(renderKeyChange).join("\n\n") },
+    confirm
+  );
+  if (res !== confirm) {
+    return;
+  }
+  await runOnFiles(
+    provider,
+    pending.map((i) => i.uri),
+    l10n.t("Updating keys of SOPS files"),
+    (file) => ["updatekeys", "--yes", file]
+  );
+}
+
+/**
+ * Re-encrypt SOPS files with newly generated data keys, i.e. `sops --rotate`
+ */
+export async function rotateDataKey(
+  provider: SopsFsProvider,
+  uri?: vscode.Uri,
+  uris?: vscode.Uri[]
+) {
+  const targets = await resolveTargets(uri, uris);
+  if (!targets.length) {
+    vscode.window.showWarningMessage(l10n.t("No SOPS file found"));
+    return;
+  }
+  const changes = await Promise.all(targets.map(previewKeyChange));
+  const confirm = l10n.t("Rotate");
+  const res = await vscode.window.showWarningMessage(
+    l10n.t("Rotate data keys of {0} SOPS file(s)?", targets.length),
+    {
+      modal: true,
+      detail:
+        l10n.t(
+          "Recipients recorded in the files are kept, differences to .sops.yaml are listed below."
+        ) +
+        "\n\n" +
+        changes.map(renderKeyChange).join("\n\n"),
+    },
+    confirm
+  );
+  if (res !== confirm) {
+    return;
+  }
+  await runOnFiles(
+    provider,
+    targets,
+    l10n.t("Rotating data keys of SOPS files"),
+    (file) => ["--rotate", "--in-place", file]
+  );
+}
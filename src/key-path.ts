@@ -0,0 +1,111 @@
+import { l10n } from "vscode";
+import type { JsonValue } from "type-fest";
+
+const ESCAPES: Record<string, string> = {
+  ["%"]: "%25",
+  ["/"]: "%2F",
+  ["\\"]: "%5C",
+  ["."]: "%2E",
+  ["_"]: "%5F",
+};
+// `%` is only escaped where it would be decoded, so `100%` is shown as is
+const ESCAPED_PERCENT_REGEX = /%(?=25|2F|5C|2E|5F)/gi;
+const ESCAPE_REGEX = /%(25|2F|5C|2E|5F)/gi;
+// shown for empty key, a key of `%` itself is escaped
+const EMPTY_KEY_NAME = "%";
+
+/**
+ * Filename of `key`, escaping what can't appear in a filename or would be
+ * mistaken for another file. `reserved` tells names taken by other files.
+ */
+export function encodeKeyName(
+  key: string,
+  reserved: (name: string) => boolean = () => false
+): string {
+  if (!key) {
+    return EMPTY_KEY_NAME;
+  } else if (key === EMPTY_KEY_NAME) {
+    return ESCAPES["%"];
+  }
+  let name = key
+    .replace(ESCAPED_PERCENT_REGEX, ESCAPES["%"])
+    .replace(/[/\\]/g, (c) => ESCAPES[c]);
+  if (name === "." || name === "..") {
+    name = name.replace(/\./g, ESCAPES["."]);
+  }
+  if (reserved(name) && ESCAPES[name[0]]) {
+    name = ESCAPES[name[0]] + name.slice(1);
+  }
+  return name;
+}
+
+/**
+ * Key of filename `name`, reverse of `encodeKeyName`
+ */
+export function decodeKeyName(name: string): string {
+  if (name === EMPTY_KEY_NAME) {
+    return "";
+  }
+  return name.replace(ESCAPE_REGEX, (_, hex: string) =>
+    String.fromCharCode(Number.parseInt(hex, 16))
+  );
+}
+
+/**
+ * Path expression of `sops --set` for key `path` in `tree`, null if a key
+ * can't be expressed. sops strips the quotes around each key without
+ * unescaping, so only keys containing `] ` or `][` are out of reach.
+ */
+export function pathToSopsSetPath(
+  path: string[],
+  tree: JsonValue
+): string | null {
+  const res: string[] = [];
+  let node: JsonValue | undefined = tree;
+  for (const key of path) {
+    if (Array.isArray(node)) {
+      const idx = Number.parseInt(key);
+      if (!(idx >= 0 && idx.toString() === key)) {
+        throw new Error(l10n.t(`"{0}" is not a valid array index`, key));
+      }
+      res.push(`[${idx}]`);
+      node = node[idx];
+    } else {
+      if (key.includes("] ") || key.includes("][")) {
+        return null;
+      }
+      res.push(`["${key}"]`);
+      node =
+        typeof node === "object" && node
+          ? (node as Record<string, JsonValue>)[key]
+          : undefined;
+    }
+  }
+  return res.join("");
+}
+
+/**
+ * Parse argument of `sops --set` into key path and JSON value the way sops
+ * does, quoted keys are strings and others array indexes
+ */
+export function parseSopsSetArg(
+  arg: string
+): { path: (string | number)[]; value: string } | null {
+  const sep = arg.indexOf("] ");
+  if (sep < 0) {
+    return null;
+  }
+  const components = arg.slice(0, sep + 1).split("][");
+  const path: (string | number)[] = [];
+  for (let component of components) {
+    component = component.replace(/^\[/, "").replace(/\]$/, "");
+    if (/^["'][\s\S]*["']$/.test(component) && component.length >= 2) {
+      path.push(component.slice(1, -1));
+    } else if (/^\d+$/.test(component)) {
+      path.push(Number.parseInt(component));
+    } else {
+      return null;
+    }
+  }
+  return { path, value: arg.slice(sep + 2) };
+}
@@ -0,0 +1,90 @@
+import * as path from "path";
+import type { JsonValue } from "type-fest";
+import { globToRegExp } from "./config";
+import { SopsFormat, parseDecrypted } from "./sops-format";
+
+export interface LeafExtensionOptions {
+  // extension by glob pattern of key name, e.g. `{ "*_cert": ".pem" }`
+  rules: Record<string, string>;
+  // guess extension of string leaves matching no rule from their content
+  detect: boolean;
+}
+
+const PEM_REGEX = /^-----BEGIN [A-Z0-9 ]+-----\r?\n/;
+const SHEBANG_REGEX = /^#![^\n]*\b(?:ba|da|k|z)?sh\b/;
+const EXPORT_REGEX = /^export [A-Za-z_][A-Za-z0-9_]*=/m;
+
+function normalizeExtension(ext: string): string {
+  return !ext || ext.startsWith(".") ? ext : "." + ext;
+}
+
+/**
+ * Guess extension of leaf `content`, i.e. `.pem`, `.json`, `.yaml` or `.sh`,
+ * empty if unknown
+ */
+export function detectExtension(content: string): string {
+  const trimmed = content.trim();
+  if (PEM_REGEX.test(trimmed + "\n")) {
+    return ".pem";
+  } else if (SHEBANG_REGEX.test(trimmed) || EXPORT_REGEX.test(trimmed)) {
+    return ".sh";
+  }
+  try {
+    const parsed = JSON.parse(trimmed);
+    if (typeof parsed === "object" && parsed) {
+      return SopsFormat.json;
+    }
+  } catch (_) {}
+  // single line like `foo: bar` is more likely a plain value
+  if (trimmed.includes("\n")) {
+    try {
+      const tree = parseDecrypted(SopsFormat.yaml, trimmed);
+      if (typeof tree === "object" && tree && !Array.isArray(tree)) {
+        return SopsFormat.yaml;
+      }
+    } catch (_) {}
+  }
+  return "";
+}
+
+function extensionOf(
+  key: string,
+  value: JsonValue,
+  opts: LeafExtensionOptions
+): string {
+  if (path.extname(key)) {
+    return "";
+  }
+  for (const [glob, ext] of Object.entries(opts.rules)) {
+    if (globToRegExp(glob).test(key)) {
+      return normalizeExtension(ext);
+    }
+  }
+  if (opts.detect && typeof value === "string") {
+    return detectExtension(value);
+  }
+  return "";
+}
+
+/**
+ * Virtual extension shown after leaf `key` holding `value`, empty if the key
+ * already has an extension or none applies. It's also empty if one of
+ * `siblings` is a key of the extended name, e.g. `config` holding JSON next
+ * to `config.json`, so both stay reachable.
+ */
+export function leafExtension(
+  key: string,
+  value: JsonValue,
+  opts: LeafExtensionOptions,
+  siblings?: object
+): string {
+  const ext = extensionOf(key, value, opts);
+  if (
+    ext &&
+    siblings &&
+    Object.prototype.hasOwnProperty.call(siblings, key + ext)
+  ) {
+    return "";
+  }
+  return ext;
+}
@@ -0,0 +1,78 @@
+import { l10n } from "vscode";
+import type { JsonValue } from "type-fest";
+
+export type LeafType = "string" | "number" | "boolean" | "null";
+
+// type tag at the end of a leaf name, e.g. `replicas[number]`
+const TYPE_TAG_REGEX = /^([\s\S]+)\[(string|number|boolean|null)\]$/;
+
+/**
+ * Split type tag off leaf `name`, `type` is undefined if it has none
+ */
+export function parseTypeTag(name: string): { name: string; type?: LeafType } {
+  const match = TYPE_TAG_REGEX.exec(name);
+  if (!match) {
+    return { name };
+  }
+  return { name: match[1], type: match[2] as LeafType };
+}
+
+/**
+ * Render leaf value as file content, non-string values are rendered as JSON
+ * so that they could be parsed back to the same type
+ */
+export function leafToContent(value: JsonValue): Buffer {
+  if (typeof value === "string") {
+    return Buffer.from(value);
+  }
+  return Buffer.from(JSON.stringify(value));
+}
+
+function parseAs(content: string, type: LeafType): JsonValue {
+  if (type === "string") {
+    return content;
+  }
+  let parsed: JsonValue | undefined;
+  try {
+    parsed = JSON.parse(content);
+  } catch (_) {}
+  if (type === "null" ? parsed === null : typeof parsed === type) {
+    return parsed as JsonValue;
+  }
+  throw new Error(l10n.t("Content is not a valid {0} value", type));
+}
+
+/**
+ * Convert file content back to leaf value. Explicit `type` is required to
+ * parse, otherwise the type of previous value is kept as long as the content
+ * still parses as that type. New values are strings unless `inferTypes`.
+ */
+export function contentToLeaf(
+  content: string,
+  previous: JsonValue | undefined,
+  inferTypes: boolean,
+  type?: LeafType
+): JsonValue {
+  if (type) {
+    return parseAs(content, type);
+  }
+  if (typeof previous === "string" || (previous === undefined && !inferTypes)) {
+    return content;
+  }
+  let parsed: JsonValue;
+  try {
+    parsed = JSON.parse(content);
+  } catch (_) {
+    return content;
+  }
+  if (previous === undefined) {
+    if (parsed === null || ["number", "boolean"].includes(typeof parsed)) {
+      return parsed;
+    }
+  } else if (
+    previous === null ? parsed === null : typeof parsed === typeof previous
+  ) {
+    return parsed;
+  }
+  return content;
+}
@@ -0,0 +1,174 @@
+import vscode from "vscode";
+import { l10n } from "vscode";
+import path from "path";
+import { SopsFsProvider } from "./sopsfs-provider";
+import { SopsFileDetector, findSopsFiles } from "./sops-files";
+
+const MOUNTS_KEY = "sopsfs.mounts";
+
+interface MountedFolder {
+  // `sops:` URI of the folder
+  uri: string;
+  name: string;
+}
+
+function mountedFolders(): vscode.WorkspaceFolder[] {
+  return (vscode.workspace.workspaceFolders ?? []).filter(
+    (folder) => folder.uri.scheme === "sops"
+  );
+}
+
+/**
+ * Remove workspace folders one by one, as `updateWorkspaceFolders` must not
+ * be called again before the previous change is applied
+ */
+async function removeWorkspaceFolders(folders: vscode.WorkspaceFolder[]) {
+  // indexes after the removed one are shifted, so start from the last one
+  const indexes = folders.map((i) => i.index).sort((a, b) => b - a);
+  for (const index of indexes) {
+    let listener: vscode.Disposable | undefined;
+    const changed = new Promise<void>((resolve) => {
+      listener = vscode.workspace.onDidChangeWorkspaceFolders(() => resolve());
+    });
+    try {
+      if (!vscode.workspace.updateWorkspaceFolders(index, 1)) {
+        return;
+      }
+      await changed;
+    } finally {
+      listener?.dispose();
+    }
+  }
+}
+
+/**
+ * Mount SOPS files as workspace folders
+ */
+export async function mount(...uris: vscode.Uri[]) {
+  const folders: { name: string; uri: vscode.Uri }[] = [];
+  for (const uri of uris) {
+    const sopsUri = SopsFsProvider.composeUri(uri);
+    const basename = path.basename(uri.path);
+    try {
+      // root is listed lazily, reading it makes sure the file is decryptable
+      await vscode.workspace.fs.readDirectory(sopsUri);
+    } catch (e) {
+      vscode.window.showErrorMessage(
+        l10n.t("Mounting failed, {0} might not be a valid SOPS file", basename)
+      );
+      console.error("failed to read sops file: " + e);
+      continue;
+    }
+    if (vscode.workspace.getWorkspaceFolder(sopsUri) === undefined) {
+      folders.push({ name: "sops:" + basename, uri: sopsUri });
+    } else if (uris.length === 1) {
+      vscode.window.showWarningMessage(
+        l10n.t("Already mounted SOPS file {0}", basename)
+      );
+    }
+  }
+  if (folders.length) {
+    vscode.workspace.updateWorkspaceFolders(0, 0, ...folders);
+  }
+}
+
+/**
+ * Remove workspace folders of mounted SOPS files
+ */
+export async function unmount(...uris: vscode.Uri[]) {
+  const folders: vscode.WorkspaceFolder[] = [];
+  for (const uri of uris) {
+    const folder = vscode.workspace.getWorkspaceFolder(
+      SopsFsProvider.composeUri(uri)
+    );
+    if (folder) {
+      folders.push(folder);
+    } else if (uris.length === 1) {
+      vscode.window.showWarningMessage(
+        l10n.t("SOPS file {0} not mounted", path.basename(uri.path))
+      );
+    }
+  }
+  await removeWorkspaceFolders(folders);
+}
+
+export async function unmountAll() {
+  await removeWorkspaceFolders(mountedFolders());
+}
+
+/**
+ * Mount all SOPS files under `folder`
+ */
+export async function mountAll(
+  folder: vscode.Uri,
+  detector?: SopsFileDetector
+) {
+  const files = [
+    ...(await findSopsFiles(folder)),
+    ...(detector?.files ?? []).filter((i) =>
+      i.path.startsWith(folder.path + "/")
+    ),
+  ];
+  if (!files.length) {
+    vscode.window.showWarningMessage(l10n.t("No SOPS file found"));
+    return;
+  }
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: l10n.t("Mounting {0} SOPS file(s)", files.length),
+    },
+    () => mount(...files)
+  );
+}
+
+/**
+ * Keep track of mounted SOPS files in workspace state
+ */
+export class MountTracker implements vscode.Disposable {
+  private subscriptions: vscode.Disposable[] = [];
+
+  constructor(private state: vscode.Memento) {
+    this.subscriptions.push(
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.save())
+    );
+  }
+
+  dispose() {
+    this.subscriptions.forEach((i) => i.dispose());
+  }
+
+  private save() {
+    const folders: MountedFolder[] = mountedFolders().map((folder) => ({
+      uri: folder.uri.toString(),
+      name: folder.name,
+    }));
+    this.state.update(MOUNTS_KEY, folders);
+  }
+
+  /**
+   * Re-mount tracked SOPS files missing from workspace, or unmount all SOPS
+   * files restored by VS Code if `restoreMounts` is false. Restored mounts
+   * are only decrypted once they are browsed.
+   */
+  async restore(restoreMounts: boolean) {
+    if (!restoreMounts) {
+      await unmountAll();
+      this.save();
+      return;
+    }
+    const current = new Set(mountedFolders().map((i) => i.uri.toString()));
+    const missing = this.state
+      .get<MountedFolder[]>(MOUNTS_KEY, [])
+      .filter((i) => !current.has(i.uri));
+    if (missing.length) {
+      vscode.workspace.updateWorkspaceFolders(
+        vscode.workspace.workspaceFolders?.length ?? 0,
+        0,
+        ...missing.map((i) => ({ name: i.name, uri: vscode.Uri.parse(i.uri) }))
+      );
+    } else {
+      this.save();
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import vscode from "vscode";
+import { l10n } from "vscode";
+import path from "path";
+import { SopsProfile, sopsOptions, SopsOptions } from "./config";
+import { SopsFsProvider } from "./sopsfs-provider";
+import { GIT_REVISION_SCHEME } from "./git-revision";
+
+const OVERRIDES_KEY = "sopsfs.profileOverrides";
+
+/**
+ * Local SOPS file of `uri`, which could also be root of mounted SOPS file or
+ * SOPS file at git revision
+ */
+export function sopsFileOf(uri: vscode.Uri): vscode.Uri {
+  if (uri.scheme === "sops") {
+    return SopsFsProvider.parseUri(uri).sopsFile;
+  } else if (uri.scheme === GIT_REVISION_SCHEME) {
+    return vscode.Uri.file(uri.path);
+  }
+  return uri;
+}
+
+/**
+ * Profiles of `sopsfs.profiles` picked manually for SOPS files, which are
+ * also shown on roots of mounted SOPS files
+ */
+export class ProfileManager
+  implements vscode.FileDecorationProvider, vscode.Disposable
+{
+  private onDidChangeEmitter = new vscode.EventEmitter<
+    vscode.Uri | vscode.Uri[] | undefined
+  >();
+  onDidChangeFileDecorations = this.onDidChangeEmitter.event;
+
+  private subscriptions: vscode.Disposable[] = [];
+
+  constructor(private state: vscode.Memento) {
+    this.subscriptions.push(
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration("sopsfs.profiles")) {
+          this.onDidChangeEmitter.fire(undefined);
+        }
+      })
+    );
+  }
+
+  dispose() {
+    this.subscriptions.forEach((i) => i.dispose());
+    this.onDidChangeEmitter.dispose();
+  }
+
+  private get overrides(): Record<string, string> {
+    return this.state.get<Record<string, string>>(OVERRIDES_KEY, {});
+  }
+
+  optionsFor(sopsFile: vscode.Uri): SopsOptions {
+    return sopsOptions(sopsFile, this.overrides[sopsFile.toString()]);
+  }
+
+  /**
+   * Pick profile for `sopsFile` manually, return true if it was changed
+   */
+  async pick(sopsFile: vscode.Uri): Promise<boolean> {
+    const profiles =
+      vscode.workspace
+        .getConfiguration("sopsfs", sopsFile)
+        .get<Record<string, SopsProfile>>("profiles") ?? {};
+    const key = sopsFile.toString();
+    const current = this.overrides[key];
+    const items: (vscode.QuickPickItem & { profile?: string })[] = [
+      {
+        label: l10n.t("Automatic"),
+        description: l10n.t("match by file patterns"),
+      },
+      { label: l10n.t("Default"), description: "sopsfs.env", profile: "" },
+      ...Object.entries(profiles).map(([name, profile]) => ({
+        label: name,
+        description: [profile.files ?? []].flat().join(", "),
+        profile: name,
+      })),
+    ];
+    for (const item of items) {
+      item.picked = item.profile === current;
+    }
+    const item = await vscode.window.showQuickPick(items, {
+      placeHolder: l10n.t(
+        "Profile to decrypt {0} with",
+        path.basename(sopsFile.path)
+      ),
+    });
+    if (!item || item.profile === current) {
+      return false;
+    }
+    const overrides = { ...this.overrides };
+    if (item.profile === undefined) {
+      delete overrides[key];
+    } else {
+      overrides[key] = item.profile;
+    }
+    await this.state.update(OVERRIDES_KEY, overrides);
+    this.onDidChangeEmitter.fire(undefined);
+    return true;
+  }
+
+  provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+    if (uri.scheme !== "sops") {
+      return;
+    }
+    const { sopsFile, fsUri } = SopsFsProvider.parseUri(uri);
+    if (fsUri.path !== "/") {
+      return;
+    }
+    const { profile } = this.optionsFor(sopsFile);
+    if (profile) {
+      return {
+        badge: profile.slice(0, 2),
+        tooltip: l10n.t("SOPS profile: {0}", profile),
+      };
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import { l10n } from "vscode";
+import type { JsonValue } from "type-fest";
+import { decodeKeyName } from "./key-path";
+
+// joins keys of nested values, e.g. `db: {password: x}` to `db_password`
+const ENV_SEPARATOR = "_";
+// characters that can't appear in names of environment variables at all
+const INVALID_ENV_CHARS_REGEX = /[=\0]/g;
+
+function envName(key: string): string {
+  return key.replace(INVALID_ENV_CHARS_REGEX, "_");
+}
+
+function envValue(value: JsonValue): string {
+  if (value === null) {
+    return "";
+  }
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Flatten decrypted `tree` into environment variables named by keys as is,
+ * like `sops exec-env`. Nested values, which `sops exec-env` refuses, are
+ * named by keys joined by `_`. A leaf `tree` is named `prefix`.
+ */
+export function flattenEnv(
+  tree: JsonValue,
+  prefix = ""
+): Record<string, string> {
+  const env: Record<string, string> = {};
+  const visit = (node: JsonValue, name: string) => {
+    if (typeof node === "object" && node) {
+      const entries = Array.isArray(node)
+        ? node.map((value, idx) => [String(idx), value] as const)
+        : Object.entries(node);
+      for (const [key, value] of entries) {
+        visit(value, name ? name + ENV_SEPARATOR + envName(key) : envName(key));
+      }
+    } else if (name) {
+      env[name] = envValue(node);
+    }
+  };
+  visit(tree, prefix && envName(prefix));
+  return env;
+}
+
+/**
+ * Key path of subtree `path` separated by `/`, each key escaped the way it's
+ * named in mounted SOPS files
+ */
+export function parseEnvPath(path: string | undefined): string[] {
+  return (path ?? "")
+    .split("/")
+    .filter((i) => !!i)
+    .map(decodeKeyName);
+}
+
+/**
+ * Environment variables of value at key `path` in decrypted `tree`
+ */
+export function secretEnvOf(
+  tree: JsonValue,
+  path: string[]
+): Record<string, string> {
+  let node: JsonValue | undefined = tree;
+  for (const key of path) {
+    node =
+      typeof node === "object" && node
+        ? (node as Record<string, JsonValue>)[key]
+        : undefined;
+    if (node === undefined) {
+      throw new Error(l10n.t("Key {0} not found", path.join("/")));
+    }
+  }
+  const isLeaf = typeof node !== "object" || node === null;
+  return flattenEnv(node, isLeaf ? path[path.length - 1] : "");
+}
@@ -0,0 +1,258 @@
+import vscode from "vscode";
+import { l10n } from "vscode";
+import path from "path";
+import throttle from "lodash.throttle";
+import { DATA_FILENAME_PREFIX, METADATA_DIRNAME } from "./sopsfs";
+import { SopsFsProvider } from "./sopsfs-provider";
+import { SOPS_FILE_GLOB, SopsFileDetector, findSopsFiles } from "./sops-files";
+import { decodeKeyName, encodeKeyName } from "./key-path";
+
+export const SECRETS_VIEW_ID = "sopsfs.secrets";
+
+export interface SecretNode {
+  sopsFile: vscode.Uri;
+  // path of key in SOPS file, empty for the SOPS file itself
+  path: string[];
+  type: vscode.FileType;
+}
+
+export function nodeUri(node: SecretNode): vscode.Uri {
+  return SopsFsProvider.composeUri(node.sopsFile, "/" + node.path.join("/"));
+}
+
+/**
+ * Filename of key typed under `parent`, escaped like names listed by mounted
+ * SOPS files, e.g. `a/b` => `a%2Fb` and `..` => `%2E%2E`
+ */
+function keyNameOf(parent: string[], key: string): string {
+  return encodeKeyName(
+    key,
+    parent.length
+      ? undefined
+      : (name) =>
+          name === METADATA_DIRNAME || name.startsWith(DATA_FILENAME_PREFIX)
+  );
+}
+
+/**
+ * Key path of `node` as named in SOPS file, e.g. `a%2Fb` => `a/b`, names of
+ * data file and metadata are kept as is
+ */
+function keyPathOf(node: SecretNode): string[] {
+  return ["metadata", "dataFile"].includes(nodeContext(node))
+    ? node.path
+    : node.path.map(decodeKeyName);
+}
+
+/**
+ * `contextValue` of tree item for menus, data file and metadata are neither
+ * renamed nor deleted
+ */
+function nodeContext(node: SecretNode): string {
+  if (node.path.length === 0) {
+    return "sopsFile";
+  } else if (node.path[0] === METADATA_DIRNAME) {
+    return "metadata";
+  } else if (
+    node.path.length === 1 &&
+    node.path[0].startsWith(DATA_FILENAME_PREFIX)
+  ) {
+    return "dataFile";
+  }
+  return node.type & vscode.FileType.Directory ? "dict" : "key";
+}
+
+/**
+ * Tree of SOPS files in workspace and their decrypted keys, editing keys
+ * without mounting SOPS files as workspace folders
+ */
+export class SecretsViewProvider
+  implements vscode.TreeDataProvider<SecretNode>, vscode.Disposable
+{
+  private onDidChangeEmitter = new vscode.EventEmitter<SecretNode | void>();
+  onDidChangeTreeData = this.onDidChangeEmitter.event;
+
+  private subscriptions: vscode.Disposable[] = [];
+
+  constructor(
+    private provider: SopsFsProvider,
+    private detector?: SopsFileDetector
+  ) {
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      SOPS_FILE_GLOB,
+      false,
+      true,
+      false
+    );
+    this.subscriptions.push(
+      watcher,
+      watcher.onDidCreate(() => this.refresh()),
+      watcher.onDidDelete(() => this.refresh()),
+      provider.onDidChangeFile(() => this.refresh())
+    );
+    if (detector) {
+      this.subscriptions.push(detector.onDidChange(() => this.refresh()));
+    }
+  }
+
+  dispose() {
+    this.subscriptions.forEach((i) => i.dispose());
+    this.refresh.cancel();
+    this.onDidChangeEmitter.dispose();
+  }
+
+  refresh = throttle(() => this.onDidChangeEmitter.fire(), 200, {
+    leading: false,
+  });
+
+  getTreeItem(node: SecretNode): vscode.TreeItem {
+    const uri = nodeUri(node);
+    const isDir = !!(node.type & vscode.FileType.Directory);
+    const keyPath = keyPathOf(node);
+    const item = new vscode.TreeItem(
+      node.path.length === 0
+        ? path.basename(node.sopsFile.path)
+        : // empty key is shown by its filename
+          keyPath[keyPath.length - 1] || node.path[node.path.length - 1],
+      isDir
+        ? vscode.TreeItemCollapsibleState.Collapsed
+        : vscode.TreeItemCollapsibleState.None
+    );
+    item.id = uri.toString();
+    item.contextValue = nodeContext(node);
+    if (node.path.length === 0) {
+      item.resourceUri = node.sopsFile;
+      item.description = path.dirname(
+        vscode.workspace.asRelativePath(node.sopsFile)
+      );
+      item.tooltip = node.sopsFile.fsPath;
+    } else {
+      item.resourceUri = uri;
+      item.tooltip = keyPath.join("/");
+    }
+    if (!isDir) {
+      item.command = {
+        command: "vscode.open",
+        title: l10n.t("Open"),
+        arguments: [uri],
+      };
+    }
+    return item;
+  }
+
+  async getChildren(node?: SecretNode): Promise<SecretNode[]> {
+    if (!node) {
+      const files = new Map<string, vscode.Uri>();
+      for (const uri of [
+        ...(await findSopsFiles()),
+        ...(this.detector?.files ?? []),
+      ]) {
+        files.set(uri.toString(), uri);
+      }
+      return [...files.values()].map((sopsFile) => ({
+        sopsFile,
+        path: [],
+        type: vscode.FileType.Directory,
+      }));
+    }
+    try {
+      const entries = await this.provider.readDirectory(nodeUri(node));
+      return entries.map(([name, type]) => ({
+        sopsFile: node.sopsFile,
+        path: [...node.path, name],
+        type,
+      }));
+    } catch (_) {
+      // errors are reported by SopsFs
+      return [];
+    }
+  }
+
+  getParent(node: SecretNode): SecretNode | undefined {
+    if (node.path.length === 0) {
+      return;
+    }
+    return {
+      sopsFile: node.sopsFile,
+      path: node.path.slice(0, -1),
+      type: vscode.FileType.Directory,
+    };
+  }
+
+  /**
+   * Create an empty key in SOPS file or dictionary `node`
+   */
+  async newKey(node: SecretNode) {
+    const name = await vscode.window.showInputBox({
+      prompt: l10n.t("Name of new key"),
+      validateInput: (value) => (!value ? l10n.t("Invalid key name") : null),
+    });
+    if (!name) {
+      return;
+    }
+    const uri = nodeUri({
+      ...node,
+      path: [...node.path, keyNameOf(node.path, name)],
+    });
+    try {
+      await this.provider.writeFile(uri, new Uint8Array(), {
+        create: true,
+        overwrite: false,
+      });
+    } catch (e) {
+      vscode.window.showErrorMessage(
+        l10n.t("Failed to create key {0}: {1}", name, String(e))
+      );
+      return;
+    }
+    await vscode.commands.executeCommand("vscode.open", uri);
+  }
+
+  async rename(node: SecretNode) {
+    const oldName = decodeKeyName(node.path[node.path.length - 1]);
+    const name = await vscode.window.showInputBox({
+      prompt: l10n.t("New name of key {0}", oldName),
+      value: oldName,
+      validateInput: (value) => (!value ? l10n.t("Invalid key name") : null),
+    });
+    if (!name || name === oldName) {
+      return;
+    }
+    const parent = node.path.slice(0, -1);
+    try {
+      await this.provider.rename(
+        nodeUri(node),
+        nodeUri({ ...node, path: [...parent, keyNameOf(parent, name)] }),
+        { overwrite: false }
+      );
+    } catch (e) {
+      vscode.window.showErrorMessage(
+        l10n.t("Failed to rename key {0}: {1}", oldName, String(e))
+      );
+    }
+  }
+
+  async delete(node: SecretNode) {
+    const keyPath = keyPathOf(node).join("/");
+    const confirm = l10n.t("Delete");
+    const res = await vscode.window.showWarningMessage(
+      l10n.t(
+        "Delete key {0} from {1}?",
+        keyPath,
+        path.basename(node.sopsFile.path)
+      ),
+      { modal: true },
+      confirm
+    );
+    if (res !== confirm) {
+      return;
+    }
+    try {
+      await this.provider.delete(nodeUri(node), { recursive: true });
+    } catch (e) {
+      vscode.window.showErrorMessage(
+        l10n.t("Failed to delete key {0}: {1}", keyPath, String(e))
+      );
+    }
+  }
+}
@@ -0,0 +1,214 @@
+import vscode from "vscode";
+import { l10n } from "vscode";
+import * as crypto from "crypto";
+import path from "path";
+import type { JsonObject } from "type-fest";
+import { SopsFsProvider } from "./sopsfs-provider";
+import { describeChanges } from "./tree-merge";
+
+const SNAPSHOTS_DIRNAME = "snapshots";
+const DEFAULT_MAX_SNAPSHOTS = 20;
+// changed keys listed in summary of a snapshot
+const MAX_SUMMARY_KEYS = 8;
+
+export interface Snapshot {
+  // encrypted content of the previous version
+  uri: vscode.Uri;
+  // when the version was overwritten, in milliseconds
+  time: number;
+}
+
+/**
+ * Previous versions of SOPS files kept encrypted in extension storage, up to
+ * `sopsfs.snapshots` per file
+ */
+export class SnapshotStore {
+  constructor(private storageUri: vscode.Uri) {}
+
+  private dirOf(sopsFile: vscode.Uri): vscode.Uri {
+    const hash = crypto
+      .createHash("sha256")
+      .update(sopsFile.toString())
+      .digest("hex");
+    return vscode.Uri.joinPath(
+      this.storageUri,
+      SNAPSHOTS_DIRNAME,
+      hash.slice(0, 32)
+    );
+  }
+
+  /**
+   * Snapshots of `sopsFile`, latest first
+   */
+  async list(sopsFile: vscode.Uri): Promise<Snapshot[]> {
+    const dir = this.dirOf(sopsFile);
+    let entries: [string, vscode.FileType][];
+    try {
+      entries = await vscode.workspace.fs.readDirectory(dir);
+    } catch (_) {
+      return [];
+    }
+    return entries
+      .filter(
+        ([name, type]) => type === vscode.FileType.File && /^\d+$/.test(name)
+      )
+      .map(([name]) => ({
+        uri: vscode.Uri.joinPath(dir, name),
+        time: Number.parseInt(name),
+      }))
+      .sort((a, b) => b.time - a.time);
+  }
+
+  /**
+   * Keep `encrypted` content of `sopsFile` about to be overwritten, the
+   * oldest snapshots beyond the limit are removed
+   */
+  async save(sopsFile: vscode.Uri, encrypted: Uint8Array) {
+    const max =
+      vscode.workspace
+        .getConfiguration("sopsfs", sopsFile)
+        .get<number>("snapshots") ?? DEFAULT_MAX_SNAPSHOTS;
+    if (max <= 0) {
+      return;
+    }
+    const snapshots = await this.list(sopsFile);
+    const [latest] = snapshots;
+    if (
+      latest &&
+      Buffer.from(await vscode.workspace.fs.readFile(latest.uri)).equals(
+        encrypted
+      )
+    ) {
+      return;
+    }
+    const dir = this.dirOf(sopsFile);
+    const time = Math.max(Date.now(), latest ? latest.time + 1 : 0);
+    await vscode.workspace.fs.createDirectory(dir);
+    await vscode.workspace.fs.writeFile(
+      vscode.Uri.joinPath(dir, String(time)),
+      encrypted
+    );
+    for (const { uri } of snapshots.slice(max - 1)) {
+      await vscode.workspace.fs.delete(uri);
+    }
+  }
+}
+
+function summarize(changes: string[]): string {
+  if (!changes.length) {
+    return l10n.t("Same keys and values as the current version");
+  }
+  const listed = changes.slice(0, MAX_SUMMARY_KEYS).join(", ");
+  return changes.length > MAX_SUMMARY_KEYS
+    ? l10n.t("{0} and {1} more", listed, changes.length - MAX_SUMMARY_KEYS)
+    : listed;
+}
+
+type SnapshotItem = vscode.QuickPickItem & { snapshot: Snapshot };
+
+/**
+ * Pick a snapshot of `sopsFile`, each summarized by keys restoring it would
+ * add (`+`), delete (`-`) or change (`~`), and restore it. The current
+ * version is kept as snapshot so restoring could be undone.
+ */
+export async function restoreSnapshot(
+  provider: SopsFsProvider,
+  store: SnapshotStore,
+  sopsFile: vscode.Uri
+) {
+  const basename = path.basename(sopsFile.path);
+  const snapshots = await store.list(sopsFile);
+  if (!snapshots.length) {
+    vscode.window.showInformationMessage(
+      l10n.t("No previous versions of {0} are kept", basename)
+    );
+    return;
+  }
+
+  const quickPick = vscode.window.createQuickPick<SnapshotItem>();
+  quickPick.title = l10n.t("Restore previous version of {0}", basename);
+  quickPick.matchOnDetail = true;
+  quickPick.items = snapshots.map((snapshot) => ({
+    label: new Date(snapshot.time).toLocaleString(),
+    detail: l10n.t("Decrypting…"),
+    snapshot,
+  }));
+  const picked = new Promise<Snapshot | undefined>((resolve) => {
+    quickPick.onDidAccept(() => resolve(quickPick.selectedItems[0]?.snapshot));
+    quickPick.onDidHide(() => resolve(undefined));
+  });
+  quickPick.busy = true;
+  quickPick.show();
+
+  const setDetail = (snapshot: Snapshot, detail: string) => {
+    const active = quickPick.activeItems.map((i) => i.snapshot);
+    quickPick.items = quickPick.items.map((item) =>
+      item.snapshot === snapshot ? { ...item, detail } : item
+    );
+    quickPick.activeItems = quickPick.items.filter((i) =>
+      active.includes(i.snapshot)
+    );
+  };
+  const summarizeAll = async () => {
+    let hidden = false;
+    quickPick.onDidHide(() => (hidden = true));
+    try {
+      const decrypt = async (uri: vscode.Uri, showErrors: boolean) =>
+        (
+          await provider.decryptContent(
+            sopsFile,
+            await vscode.workspace.fs.readFile(uri),
+            showErrors
+          )
+        ).tree;
+      let current: JsonObject | null;
+      try {
+        current = await decrypt(sopsFile, true);
+      } catch (e) {
+        console.error("failed to decrypt current version: " + e);
+        snapshots.forEach((i) =>
+          setDetail(i, l10n.t("Failed to decrypt current version"))
+        );
+        return;
+      }
+      // a corrupt snapshot is only flagged in its item, the others are still
+      // summarized
+      for (const snapshot of snapshots) {
+        if (hidden) {
+          return;
+        }
+        try {
+          setDetail(
+            snapshot,
+            summarize(
+              describeChanges(current, await decrypt(snapshot.uri, false))
+            )
+          );
+        } catch (e) {
+          console.error("failed to decrypt previous version: " + e);
+          setDetail(snapshot, l10n.t("Failed to decrypt"));
+        }
+      }
+    } finally {
+      quickPick.busy = false;
+    }
+  };
+  summarizeAll();
+
+  const snapshot = await picked;
+  quickPick.dispose();
+  if (!snapshot) {
+    return;
+  }
+  const content = await vscode.workspace.fs.readFile(snapshot.uri);
+  await store.save(sopsFile, await vscode.workspace.fs.readFile(sopsFile));
+  await vscode.workspace.fs.writeFile(sopsFile, content);
+  provider.invalidate(sopsFile);
+  vscode.window.showInformationMessage(
+    l10n.t(
+      "Restored {0} to version of {1}",
+      basename,
+      new Date(snapshot.time).toLocaleString()
+    )
+  );
+}
@@ -0,0 +1,235 @@
+import { l10n } from "vscode";
+import { execa } from "execa";
+import { temporaryFileTask } from "tempy";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import type { SopsBackend } from "./sops-cmd";
+import { SopsFormat, pathToFormat } from "./sops-format";
+import { AgeIdentity, parseIdentities } from "./age";
+import { parseSopsSetArg } from "./key-path";
+import {
+  SopsTreeBranch,
+  SopsTreeValue,
+  decryptDataKey,
+  decryptDocument,
+  emitTree,
+  encryptDocument,
+  hasComments,
+  isBranch,
+  joinMetadata,
+  parseJsonValue,
+  parseTree,
+  splitMetadata,
+} from "./sops-crypto";
+
+// file whose content replaces decrypted content when editing, set along with
+// `EDITOR` copying it, so no command is run for that
+export const CONTENT_FILE_ENV = "SOPSFS_CONTENT_FILE";
+
+/**
+ * Config dir of sops, same as Go's `os.UserConfigDir`
+ */
+function userConfigDir(env: Record<string, string | undefined>): string {
+  switch (process.platform) {
+    case "win32":
+      return env["APPDATA"] ?? path.join(os.homedir(), "AppData", "Roaming");
+    case "darwin":
+      return path.join(os.homedir(), "Library", "Application Support");
+  }
+  return env["XDG_CONFIG_HOME"] || path.join(os.homedir(), ".config");
+}
+
+/**
+ * Age identities from `SOPS_AGE_KEY` and `SOPS_AGE_KEY_FILE`, falling back
+ * to the default keys file of sops
+ */
+async function loadIdentities(
+  env: Record<string, string | undefined>
+): Promise<AgeIdentity[]> {
+  const identities = parseIdentities(env["SOPS_AGE_KEY"] ?? "");
+  const keyFile =
+    env["SOPS_AGE_KEY_FILE"] ||
+    path.join(userConfigDir(env), "sops", "age", "keys.txt");
+  try {
+    identities.push(...parseIdentities(await fs.readFile(keyFile, "utf8")));
+  } catch (e: any) {
+    if (e.code !== "ENOENT" || !identities.length) {
+      throw e;
+    }
+  }
+  return identities;
+}
+
+/**
+ * Split command line like sops does with `EDITOR`, honoring quotes
+ */
+function splitCommand(command: string): string[] {
+  const res: string[] = [];
+  const regex = /'([^']*)'|"((?:[^"\\]|\\.)*)"|(\S+)|(\s+)/g;
+  let current: string | null = null;
+  for (const match of command.matchAll(regex)) {
+    const [, single, double, plain, space] = match;
+    if (space !== undefined) {
+      if (current !== null) {
+        res.push(current);
+      }
+      current = null;
+      continue;
+    }
+    current =
+      (current ?? "") + (single ?? double?.replace(/\\(.)/g, "$1") ?? plain);
+  }
+  if (current !== null) {
+    res.push(current);
+  }
+  return res;
+}
+
+function setValue(
+  tree: SopsTreeBranch,
+  keys: (string | number)[],
+  value: SopsTreeValue
+) {
+  let node: SopsTreeValue = tree;
+  keys.forEach((key, idx) => {
+    const last = idx === keys.length - 1;
+    if (Array.isArray(node) && typeof key === "number") {
+      if (key > node.length) {
+        throw new Error(l10n.t("Index {0} out of range", key));
+      }
+      if (last) {
+        node[key] = value;
+      } else {
+        node[key] ??= new Map();
+        node = node[key];
+      }
+    } else if (isBranch(node)) {
+      const child: SopsTreeValue = node.get(String(key)) ?? new Map();
+      node.set(String(key), last ? value : child);
+      node = child;
+    } else {
+      throw new Error(l10n.t("Can't set value on non-dictionary"));
+    }
+  });
+}
+
+class BuiltinSopsFile {
+  private format: SopsFormat;
+
+  constructor(
+    private file: string,
+    private env: Record<string, string | undefined>
+  ) {
+    this.format = pathToFormat(file);
+    if (this.format !== SopsFormat.json && this.format !== SopsFormat.yaml) {
+      throw new Error(
+        l10n.t(
+          "Built-in SOPS backend only supports JSON and YAML files, not {0}",
+          path.basename(file)
+        )
+      );
+    }
+  }
+
+  async decrypt(forWrite = false): Promise<{
+    tree: SopsTreeBranch;
+    metadata: SopsTreeBranch;
+    key: Buffer;
+  }> {
+    const content = await fs.readFile(this.file, "utf8");
+    // comments would be dropped on re-encryption
+    if (forWrite && hasComments(content, this.format)) {
+      throw new Error(
+        l10n.t(
+          "Built-in SOPS backend can't keep comments of {0}, use sops command to change it",
+          path.basename(this.file)
+        )
+      );
+    }
+    const doc = splitMetadata(parseTree(content, this.format));
+    const key = decryptDataKey(doc.metadata, await loadIdentities(this.env));
+    return { tree: decryptDocument(doc, key), metadata: doc.metadata, key };
+  }
+
+  async encrypt(tree: SopsTreeBranch, metadata: SopsTreeBranch, key: Buffer) {
+    const doc = encryptDocument(tree, metadata, key);
+    await fs.writeFile(this.file, emitTree(joinMetadata(doc), this.format));
+  }
+
+  async read(): Promise<Buffer> {
+    const { tree } = await this.decrypt();
+    return Buffer.from(emitTree(tree, this.format));
+  }
+
+  async set(arg: string) {
+    const parsed = parseSopsSetArg(arg);
+    if (!parsed) {
+      throw new Error(l10n.t("Invalid set argument {0}", arg));
+    }
+    const value = parseJsonValue(parsed.value);
+    const { tree, metadata, key } = await this.decrypt(true);
+    setValue(tree, parsed.path, value);
+    await this.encrypt(tree, metadata, key);
+  }
+
+  /**
+   * Edit decrypted content with `editor` in a temp file, then encrypt it
+   * with the same data key. Content of `contentFile` is copied over instead
+   * of running the editor if given.
+   */
+  async edit(editor: string, contentFile?: string) {
+    const { tree, metadata, key } = await this.decrypt(true);
+    const before = emitTree(tree, this.format);
+    const after = await temporaryFileTask(
+      async (tempFile) => {
+        await fs.writeFile(tempFile, before);
+        if (contentFile) {
+          await fs.copyFile(contentFile, tempFile);
+        } else {
+          const [cmd, ...args] = splitCommand(editor);
+          await execa(cmd, [...args, tempFile]);
+        }
+        return await fs.readFile(tempFile, "utf8");
+      },
+      { extension: this.format }
+    );
+    if (after === before) {
+      return;
+    }
+    const newTree = parseTree(after, this.format);
+    newTree.delete("sops");
+    await this.encrypt(newTree, metadata, key);
+  }
+}
+
+/**
+ * SOPS backend handling files whose data key is encrypted to age X25519
+ * recipients without sops command, supports decrypting (`--decrypt`),
+ * setting value (`--set`) and editing with `EDITOR`
+ */
+export const builtinBackend: SopsBackend = {
+  async exec(opts, args, extraEnv) {
+    const env = { ...process.env, ...opts.env, ...extraEnv };
+    const resolve = (file: string) => path.resolve(opts.cwd ?? "", file);
+    const [first, ...rest] = args;
+    if (first === "--decrypt" && rest.length === 1) {
+      return await new BuiltinSopsFile(resolve(rest[0]), env).read();
+    } else if (first === "--set" && rest.length === 2) {
+      await new BuiltinSopsFile(resolve(rest[1]), env).set(rest[0]);
+      return Buffer.alloc(0);
+    } else if (args.length === 1 && !first.startsWith("-") && env["EDITOR"]) {
+      await new BuiltinSopsFile(resolve(first), env).edit(
+        env["EDITOR"],
+        env[CONTENT_FILE_ENV]
+      );
+      return Buffer.alloc(0);
+    }
+    throw new Error(
+      l10n.t(
+        "sops {0} is not supported by built-in SOPS backend",
+        args.join(" ")
+      )
+    );
+  },
+};
@@ -0,0 +1,64 @@
+import { execa } from "execa";
+import { builtinBackend } from "./sops-builtin";
+import type { SopsBackendName } from "./config";
+
+export interface SopsCmdOptions {
+  sopsCmd: string;
+  env: Record<string, string>;
+  cwd?: string;
+  backend?: SopsBackendName;
+}
+
+/**
+ * Implementation of sops command line, returns stdout
+ */
+export interface SopsBackend {
+  exec(
+    opts: SopsCmdOptions,
+    args: readonly string[],
+    extraEnv?: Record<string, string>
+  ): Promise<Buffer>;
+}
+
+const cliBackend: SopsBackend = {
+  async exec(opts, args, extraEnv) {
+    const { stdout } = await execa(opts.sopsCmd, args, {
+      stripFinalNewline: false,
+      cwd: opts.cwd,
+      env: {
+        ...opts.env,
+        ...extraEnv,
+      },
+      encoding: null,
+    });
+    return stdout;
+  },
+};
+
+const BACKENDS: Record<SopsBackendName, SopsBackend> = {
+  sops: cliBackend,
+  builtin: builtinBackend,
+};
+
+export async function execSops(
+  opts: SopsCmdOptions,
+  args: readonly string[],
+  toString: true,
+  extraEnv?: Record<string, string>
+): Promise<string>;
+export async function execSops(
+  opts: SopsCmdOptions,
+  args: readonly string[],
+  toString: false,
+  extraEnv?: Record<string, string>
+): Promise<Buffer>;
+export async function execSops(
+  opts: SopsCmdOptions,
+  args: readonly string[],
+  toString: boolean,
+  extraEnv?: Record<string, string>
+): Promise<string | Buffer> {
+  const backend = BACKENDS[opts.backend ?? "sops"];
+  const stdout = await backend.exec(opts, args, extraEnv);
+  return toString ? stdout.toString() : stdout;
+}
@@ -0,0 +1,195 @@
+import vscode from "vscode";
+import { parse as parseYaml } from "yaml";
+import path from "path";
+import type { Recipient } from "./sops-metadata";
+import { goRegExp } from "./sops-crypto";
+
+export interface CreationRule {
+  // .sops.yaml the rule comes from
+  configUri: vscode.Uri;
+  rule: Record<string, any>;
+}
+
+export const CONFIG_FILENAMES = [".sops.yaml", ".sops.yml"];
+
+/**
+ * Find closest .sops.yaml in parent folders of `fileUri`
+ */
+export async function findSopsConfig(
+  fileUri: vscode.Uri
+): Promise<vscode.Uri | null> {
+  let dir = vscode.Uri.joinPath(fileUri, "..");
+  for (;;) {
+    for (const name of CONFIG_FILENAMES) {
+      const configUri = vscode.Uri.joinPath(dir, name);
+      try {
+        await vscode.workspace.fs.stat(configUri);
+        return configUri;
+      } catch (_) {}
+    }
+    const parent = vscode.Uri.joinPath(dir, "..");
+    if (parent.path === dir.path) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Whether path_regex of creation rule matches `fileUri`, sops matches it
+ * against either relative path to .sops.yaml or path given in command line
+ * depending on its version so both are tried.
+ */
+export function ruleMatches(
+  configUri: vscode.Uri,
+  rule: Record<string, any>,
+  fileUri: vscode.Uri
+): boolean {
+  if (typeof rule.path_regex !== "string" || !rule.path_regex) {
+    return true;
+  }
+  const regex = goRegExp(rule.path_regex);
+  const relative = path.posix.relative(
+    path.posix.dirname(configUri.path),
+    fileUri.path
+  );
+  return regex.test(relative) || regex.test(fileUri.fsPath);
+}
+
+/**
+ * Creation rules of .sops.yaml at `configUri`
+ */
+export async function readCreationRules(
+  configUri: vscode.Uri
+): Promise<Record<string, any>[]> {
+  const content = await vscode.workspace.fs.readFile(configUri);
+  const config = parseYaml(Buffer.from(content).toString());
+  const rules = Array.isArray(config?.creation_rules)
+    ? config.creation_rules
+    : [];
+  return rules.filter((rule: unknown) => typeof rule === "object" && rule);
+}
+
+/**
+ * First creation rule matching `fileUri` like sops does
+ */
+export function matchCreationRule(
+  configUri: vscode.Uri,
+  rules: Record<string, any>[],
+  fileUri: vscode.Uri
+): CreationRule | null {
+  const rule = rules.find((rule) => ruleMatches(configUri, rule, fileUri));
+  return rule ? { configUri, rule } : null;
+}
+
+/**
+ * First creation rule in closest .sops.yaml matching `fileUri`
+ */
+export async function findCreationRule(
+  fileUri: vscode.Uri
+): Promise<CreationRule | null> {
+  const configUri = await findSopsConfig(fileUri);
+  if (!configUri) {
+    return null;
+  }
+  const rules = await readCreationRules(configUri);
+  return matchCreationRule(configUri, rules, fileUri);
+}
+
+function splitList(value: unknown): string[] {
+  const list = Array.isArray(value) ? value : [value];
+  return list
+    .flatMap((i) => (typeof i === "string" ? i.split(",") : []))
+    .map((i) => i.trim())
+    .filter((i) => !!i);
+}
+
+function kmsId(arn: string, role?: string, profile?: string): string {
+  return [arn, role, profile].filter((i) => !!i).join(" ");
+}
+
+function kmsIdFromString(value: string, profile?: string): string {
+  // <arn>+<role>
+  const [arn, role] = value.split("+");
+  return kmsId(arn, role, profile);
+}
+
+function azureId(url: string): string {
+  // https://<vault>.vault.azure.net/keys/<name>/<version>
+  const match = /^(https?:\/\/[^/]+)\/keys\/([^/]+)\/([^/]+)$/.exec(url);
+  return match ? match.slice(1).join(" ") : url;
+}
+
+function hcVaultId(uri: string): string {
+  // https://<address>/v1/<engine path>/keys/<key name>
+  const match = /^(https?:\/\/[^/]+)\/v1\/(.+)\/keys\/([^/]+)$/.exec(uri);
+  return match ? match.slice(1).join(" ") : uri;
+}
+
+function collectRuleKeys(
+  keys: Record<string, any>,
+  group: number | null,
+  awsProfile?: string
+): Recipient[] {
+  const res: Recipient[] = [];
+  const push = (type: string, ids: string[]) =>
+    res.push(...ids.map((id) => ({ group, type, id })));
+
+  push("age", splitList(keys.age));
+  push("pgp", splitList(keys.pgp));
+  push(
+    "gcp_kms",
+    Array.isArray(keys.gcp_kms)
+      ? keys.gcp_kms.map((i: any) => i?.resource_id ?? String(i))
+      : splitList(keys.gcp_kms)
+  );
+  if (Array.isArray(keys.kms)) {
+    push(
+      "kms",
+      keys.kms.map((i: any) =>
+        typeof i === "string"
+          ? kmsIdFromString(i, awsProfile)
+          : kmsId(i?.arn, i?.role, i?.aws_profile ?? awsProfile)
+      )
+    );
+  } else {
+    push(
+      "kms",
+      splitList(keys.kms).map((i) => kmsIdFromString(i, awsProfile))
+    );
+  }
+  if (Array.isArray(keys.azure_keyvault)) {
+    push(
+      "azure_kv",
+      keys.azure_keyvault.map((i: any) =>
+        typeof i === "string"
+          ? azureId(i)
+          : [i?.vaultUrl, i?.key, i?.version].join(" ")
+      )
+    );
+  } else {
+    push("azure_kv", splitList(keys.azure_keyvault).map(azureId));
+  }
+  push(
+    "hc_vault",
+    [...splitList(keys.hc_vault_transit_uri), ...splitList(keys.hc_vault)].map(
+      hcVaultId
+    )
+  );
+  return res;
+}
+
+/**
+ * Master keys a creation rule encrypts data key to, in the same form as
+ * `listRecipients` of SOPS metadata
+ */
+export function ruleRecipients(rule: Record<string, any>): Recipient[] {
+  if (Array.isArray(rule.key_groups) && rule.key_groups.length > 0) {
+    return rule.key_groups.flatMap((group: any, idx: number) =>
+      typeof group === "object" && group
+        ? collectRuleKeys(group, idx, rule.aws_profile)
+        : []
+    );
+  }
+  return collectRuleKeys(rule, null, rule.aws_profile);
+}
@@ -0,0 +1,529 @@
+import * as crypto from "crypto";
+import type { JsonObject } from "type-fest";
+import * as jsonc from "jsonc-parser";
+import {
+  Document as YamlDocument,
+  isNode,
+  isScalar,
+  parseAllDocuments,
+  visit,
+} from "yaml";
+import { SopsFormat } from "./sops-format";
+import { AgeIdentity, decryptAge } from "./age";
+
+/**
+ * Tree of SOPS document, dictionaries are kept as `Map` so that keys stay in
+ * file order, which the MAC depends on
+ */
+export type SopsTreeValue =
+  | string
+  | number
+  | boolean
+  | null
+  | SopsTreeValue[]
+  | SopsTreeBranch;
+export type SopsTreeBranch = Map<string, SopsTreeValue>;
+type SopsLeaf = string | number | boolean | null;
+
+export interface SopsDocument {
+  tree: SopsTreeBranch;
+  // `sops` metadata, kept as is except `lastmodified` and `mac`
+  metadata: SopsTreeBranch;
+}
+
+export class SopsCryptoError extends Error {}
+
+const ENCRYPTED_REGEX =
+  /^ENC\[AES256_GCM,data:([^,]*),iv:([^,]*),tag:([^,]*),type:([a-z]+)\]$/;
+const METADATA_KEY = "sops";
+
+/**
+ * Convert Go regular expression to JavaScript one, only leading flags like
+ * `(?i)` need special handling
+ */
+export function goRegExp(pattern: string): RegExp {
+  const match = /^\(\?([imsU]+)\)/.exec(pattern);
+  if (!match) {
+    return new RegExp(pattern);
+  }
+  const flags = [...match[1]].filter((i) => "ims".includes(i)).join("");
+  return new RegExp(pattern.slice(match[0].length), flags);
+}
+
+export function isBranch(value: SopsTreeValue): value is SopsTreeBranch {
+  return value instanceof Map;
+}
+
+/**
+ * Format float as Go's `strconv.FormatFloat(f, 'f', -1, 64)`, i.e. without
+ * exponent
+ */
+function formatFloat(value: number): string {
+  const str = String(value);
+  const match = /^(-?)(\d)(?:\.(\d+))?e([+-]\d+)$/.exec(str);
+  if (!match) {
+    return str;
+  }
+  const [, sign, int, frac = "", exp] = match;
+  const digits = int + frac;
+  const point = 1 + Number.parseInt(exp);
+  if (point <= 0) {
+    return `${sign}0.${"0".repeat(-point)}${digits}`;
+  } else if (point >= digits.length) {
+    return sign + digits.padEnd(point, "0");
+  }
+  return `${sign}${digits.slice(0, point)}.${digits.slice(point)}`;
+}
+
+/**
+ * Plaintext of leaf value as sops encrypts and hashes it
+ */
+function leafToString(value: string | number | boolean): [string, string] {
+  if (typeof value === "string") {
+    return [value, "str"];
+  } else if (typeof value === "boolean") {
+    return [value ? "True" : "False", "bool"];
+  } else if (Number.isInteger(value)) {
+    return [String(value), "int"];
+  }
+  return [formatFloat(value), "float"];
+}
+
+export function encryptValue(
+  value: string | number | boolean,
+  key: Buffer,
+  additionalData: string
+): string {
+  const [plaintext, type] = leafToString(value);
+  const iv = crypto.randomBytes(32);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  cipher.setAAD(Buffer.from(additionalData));
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return `ENC[AES256_GCM,data:${data.toString("base64")},iv:${iv.toString(
+    "base64"
+  )},tag:${tag.toString("base64")},type:${type}]`;
+}
+
+export function decryptValue(
+  value: string,
+  key: Buffer,
+  additionalData: string
+): string | number | boolean {
+  const match = ENCRYPTED_REGEX.exec(value);
+  if (!match) {
+    throw new SopsCryptoError(`Invalid encrypted value "${value}"`);
+  }
+  const [, data, iv, tag, type] = match;
+  let plaintext: string;
+  try {
+    const decipher = crypto.createDecipheriv(
+      "aes-256-gcm",
+      key,
+      Buffer.from(iv, "base64")
+    );
+    decipher.setAAD(Buffer.from(additionalData));
+    decipher.setAuthTag(Buffer.from(tag, "base64"));
+    plaintext = Buffer.concat([
+      decipher.update(Buffer.from(data, "base64")),
+      decipher.final(),
+    ]).toString();
+  } catch (_) {
+    throw new SopsCryptoError(
+      `Failed to decrypt value at "${additionalData}", wrong data key or tampered file`
+    );
+  }
+  switch (type) {
+    case "str":
+    case "bytes":
+    case "comment":
+      return plaintext;
+    case "int":
+      return Number.parseInt(plaintext);
+    case "float":
+      return Number.parseFloat(plaintext);
+    case "bool":
+      return plaintext.toLowerCase() === "true";
+  }
+  throw new SopsCryptoError(`Unknown type "${type}" of encrypted value`);
+}
+
+function metadataOption(
+  metadata: SopsTreeBranch | JsonObject,
+  key: string
+): string | undefined {
+  const value = metadata instanceof Map ? metadata.get(key) : metadata[key];
+  return typeof value === "string" && value ? value : undefined;
+}
+
+/**
+ * Whether value at `path` is encrypted according to `*_suffix` and
+ * `*_regex` options of `metadata`, same as sops does. List indexes are not
+ * part of `path`.
+ */
+export function isPathEncrypted(
+  metadata: SopsTreeBranch | JsonObject,
+  path: string[]
+): boolean {
+  const option = (key: string) => metadataOption(metadata, key);
+  let encrypted = true;
+  const unencryptedSuffix = option("unencrypted_suffix");
+  if (unencryptedSuffix && path.some((i) => i.endsWith(unencryptedSuffix))) {
+    encrypted = false;
+  }
+  const encryptedSuffix = option("encrypted_suffix");
+  if (encryptedSuffix) {
+    encrypted = path.some((i) => i.endsWith(encryptedSuffix));
+  }
+  const unencryptedRegex = option("unencrypted_regex");
+  if (unencryptedRegex) {
+    const regex = goRegExp(unencryptedRegex);
+    if (path.some((i) => regex.test(i))) {
+      encrypted = false;
+    }
+  }
+  const encryptedRegex = option("encrypted_regex");
+  if (encryptedRegex) {
+    const regex = goRegExp(encryptedRegex);
+    encrypted = path.some((i) => regex.test(i));
+  }
+  return encrypted;
+}
+
+/**
+ * Name to rename the last key of `path` to, adding or removing
+ * `encrypted_suffix` or `unencrypted_suffix`, so that the value is encrypted
+ * if it's not or vice versa. Null if no such name, e.g. with `*_regex` rules.
+ */
+export function toggledKeyName(
+  metadata: SopsTreeBranch | JsonObject,
+  path: string[]
+): string | null {
+  const encrypted = isPathEncrypted(metadata, path);
+  const key = path[path.length - 1];
+  const candidates = ["encrypted_suffix", "unencrypted_suffix"]
+    .map((option) => metadataOption(metadata, option))
+    .filter((suffix): suffix is string => !!suffix)
+    .map((suffix) =>
+      key.endsWith(suffix) ? key.slice(0, -suffix.length) : key + suffix
+    );
+  return (
+    candidates.find(
+      (name) =>
+        !!name &&
+        isPathEncrypted(metadata, [...path.slice(0, -1), name]) !== encrypted
+    ) ?? null
+  );
+}
+
+/**
+ * Map leaves of `value` in order, list items share path of the list
+ */
+function walkTree(
+  value: SopsTreeValue,
+  path: string[],
+  onLeaf: (leaf: SopsLeaf, path: string[]) => SopsLeaf
+): SopsTreeValue {
+  if (isBranch(value)) {
+    const res: SopsTreeBranch = new Map();
+    for (const [key, child] of value) {
+      res.set(key, walkTree(child, [...path, key], onLeaf));
+    }
+    return res;
+  } else if (Array.isArray(value)) {
+    return value.map((i) => walkTree(i, path, onLeaf));
+  }
+  return onLeaf(value, path);
+}
+
+/**
+ * Feed plaintext of `leaf` to MAC `hash` unless only encrypted values are
+ * covered by the MAC
+ */
+function hashLeaf(
+  hash: crypto.Hash,
+  metadata: SopsTreeBranch,
+  leaf: string | number | boolean,
+  encrypted: boolean
+) {
+  if (encrypted || metadata.get("mac_only_encrypted") !== true) {
+    hash.update(leafToString(leaf)[0]);
+  }
+}
+
+/**
+ * Decrypt values of SOPS document with data `key`, the MAC is verified
+ */
+export function decryptDocument(
+  { tree, metadata }: SopsDocument,
+  key: Buffer
+): SopsTreeBranch {
+  const hash = crypto.createHash("sha512");
+  const res = walkTree(tree, [], (leaf, path) => {
+    if (leaf === null) {
+      return leaf;
+    }
+    const encrypted = isPathEncrypted(metadata, path);
+    const additionalData = path.join(":") + ":";
+    if (encrypted && typeof leaf !== "string") {
+      throw new SopsCryptoError(
+        `Value at "${additionalData}" is not encrypted`
+      );
+    }
+    const plaintext = encrypted
+      ? decryptValue(leaf as string, key, additionalData)
+      : leaf;
+    hashLeaf(hash, metadata, plaintext, encrypted);
+    return plaintext;
+  }) as SopsTreeBranch;
+
+  const mac = metadata.get("mac");
+  const lastModified = metadata.get("lastmodified");
+  if (typeof mac !== "string" || typeof lastModified !== "string") {
+    throw new SopsCryptoError("MAC of SOPS file not found");
+  }
+  const expected = decryptValue(mac, key, lastModified);
+  if (expected !== hash.digest("hex").toUpperCase()) {
+    throw new SopsCryptoError("MAC mismatch, SOPS file might be tampered");
+  }
+  return res;
+}
+
+/**
+ * Encrypt `tree` with data `key`, `lastmodified` and `mac` of `metadata` are
+ * regenerated
+ */
+export function encryptDocument(
+  tree: SopsTreeBranch,
+  metadata: SopsTreeBranch,
+  key: Buffer
+): SopsDocument {
+  const hash = crypto.createHash("sha512");
+  const res = walkTree(tree, [], (leaf, path) => {
+    if (leaf === null) {
+      return leaf;
+    }
+    const encrypted = isPathEncrypted(metadata, path);
+    hashLeaf(hash, metadata, leaf, encrypted);
+    return encrypted ? encryptValue(leaf, key, path.join(":") + ":") : leaf;
+  }) as SopsTreeBranch;
+
+  // RFC 3339 without fractional seconds, as sops writes it
+  const lastModified = new Date().toISOString().replace(/\.\d+Z$/, "Z");
+  const newMetadata = new Map(metadata);
+  newMetadata.set("lastmodified", lastModified);
+  newMetadata.set(
+    "mac",
+    encryptValue(hash.digest("hex").toUpperCase(), key, lastModified)
+  );
+  return { tree: res, metadata: newMetadata };
+}
+
+/**
+ * Master keys of `age` type in metadata, key groups are only supported if
+ * there is a single group as sops splits data key by Shamir otherwise
+ */
+function ageMasterKeys(metadata: SopsTreeBranch): SopsTreeBranch[] {
+  const keys: SopsTreeValue[] = [];
+  const age = metadata.get("age");
+  if (Array.isArray(age)) {
+    keys.push(...age);
+  }
+  const groups = metadata.get("key_groups");
+  if (Array.isArray(groups) && groups.length > 1) {
+    throw new SopsCryptoError(
+      "Key groups with Shamir secret sharing are not supported"
+    );
+  } else if (Array.isArray(groups) && groups.length === 1) {
+    const group = groups[0];
+    const groupAge = isBranch(group) ? group.get("age") : null;
+    if (Array.isArray(groupAge)) {
+      keys.push(...groupAge);
+    }
+  }
+  return keys.filter(isBranch);
+}
+
+/**
+ * Decrypt data key of SOPS file with age `identities`
+ */
+export function decryptDataKey(
+  metadata: SopsTreeBranch,
+  identities: AgeIdentity[]
+): Buffer {
+  const keys = ageMasterKeys(metadata);
+  if (!keys.length) {
+    throw new SopsCryptoError("SOPS file has no age recipient");
+  }
+  for (const masterKey of keys) {
+    const enc = masterKey.get("enc");
+    if (typeof enc !== "string") {
+      continue;
+    }
+    try {
+      return decryptAge(Buffer.from(enc), identities);
+    } catch (_) {
+      // try next recipient
+    }
+  }
+  throw new SopsCryptoError(
+    "Failed to get the data key, none of the age identities is a recipient"
+  );
+}
+
+function normalizeValue(value: unknown): SopsTreeValue {
+  if (value instanceof Map) {
+    const res: SopsTreeBranch = new Map();
+    for (const [key, child] of value) {
+      res.set(String(key), normalizeValue(child));
+    }
+    return res;
+  } else if (Array.isArray(value)) {
+    return value.map(normalizeValue);
+  } else if (
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean" ||
+    value === null
+  ) {
+    return value;
+  } else if (value === undefined) {
+    return null;
+  }
+  return String(value);
+}
+
+function jsonNodeToValue(node: jsonc.Node): SopsTreeValue {
+  if (node.type === "object") {
+    const res: SopsTreeBranch = new Map();
+    for (const prop of node.children ?? []) {
+      const [key, child] = prop.children ?? [];
+      res.set(key.value, child ? jsonNodeToValue(child) : null);
+    }
+    return res;
+  } else if (node.type === "array") {
+    return (node.children ?? []).map(jsonNodeToValue);
+  }
+  return node.value;
+}
+
+/**
+ * Parse JSON value, e.g. value given to `sops --set`
+ */
+export function parseJsonValue(content: string): SopsTreeValue {
+  const errors: jsonc.ParseError[] = [];
+  const node = jsonc.parseTree(content, errors, { disallowComments: true });
+  if (errors.length || !node) {
+    throw new SopsCryptoError("Invalid JSON value");
+  }
+  return jsonNodeToValue(node);
+}
+
+/**
+ * Whether YAML document has comments, which are encrypted by sops but lost
+ * when parsed into tree
+ */
+export function hasComments(content: string, format: SopsFormat): boolean {
+  if (format !== SopsFormat.yaml) {
+    return false;
+  }
+  let found = false;
+  for (const doc of [parseAllDocuments(content)].flat()) {
+    if (doc.commentBefore || doc.comment) {
+      return true;
+    }
+    visit(doc, (_, node) => {
+      if (isNode(node) && (node.commentBefore || node.comment)) {
+        found = true;
+        return visit.BREAK;
+      }
+    });
+  }
+  return found;
+}
+
+/**
+ * Parse JSON or YAML document into tree, `sops` metadata included
+ */
+export function parseTree(content: string, format: SopsFormat): SopsTreeBranch {
+  let root: SopsTreeValue;
+  if (format === SopsFormat.json) {
+    root = parseJsonValue(content);
+  } else if (format === SopsFormat.yaml) {
+    const docs = parseAllDocuments(content);
+    if (!Array.isArray(docs) || docs.length > 1) {
+      throw new SopsCryptoError("Multiple YAML documents are not supported");
+    }
+    const [doc] = docs;
+    if (doc?.errors.length) {
+      throw new SopsCryptoError(
+        `Invalid YAML document: ${doc.errors[0].message}`
+      );
+    }
+    root = normalizeValue(doc?.toJS({ mapAsMap: true }) ?? new Map());
+  } else {
+    throw new SopsCryptoError(`Format "${format}" is not supported`);
+  }
+  if (!isBranch(root)) {
+    throw new SopsCryptoError("Root of document must be a dictionary");
+  }
+  return root;
+}
+
+/**
+ * Split encrypted document into tree and `sops` metadata
+ */
+export function splitMetadata(root: SopsTreeBranch): SopsDocument {
+  const metadata = root.get(METADATA_KEY);
+  if (!metadata || !isBranch(metadata)) {
+    throw new SopsCryptoError("sops metadata not found");
+  }
+  const tree = new Map(root);
+  tree.delete(METADATA_KEY);
+  return { tree, metadata };
+}
+
+function emitJson(value: SopsTreeValue, indent = ""): string {
+  const inner = indent + "\t";
+  if (isBranch(value)) {
+    if (!value.size) {
+      return "{}";
+    }
+    const entries = [...value].map(
+      ([key, child]) =>
+        `${inner}${JSON.stringify(key)}: ${emitJson(child, inner)}`
+    );
+    return `{\n${entries.join(",\n")}\n${indent}}`;
+  } else if (Array.isArray(value)) {
+    if (!value.length) {
+      return "[]";
+    }
+    const items = value.map((child) => inner + emitJson(child, inner));
+    return `[\n${items.join(",\n")}\n${indent}]`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Emit tree in the layout of sops, i.e. tab indented JSON and 4 spaces
+ * indented YAML
+ */
+export function emitTree(tree: SopsTreeBranch, format: SopsFormat): string {
+  if (format === SopsFormat.json) {
+    return emitJson(tree);
+  }
+  const doc = new YamlDocument(tree);
+  const lastModified = doc.getIn([METADATA_KEY, "lastmodified"], true);
+  if (isScalar(lastModified)) {
+    // keep it a string for YAML parsers with timestamp type
+    lastModified.type = "QUOTE_DOUBLE";
+  }
+  return doc.toString({ indent: 4, lineWidth: 0 });
+}
+
+/**
+ * Join tree and metadata of SOPS document, metadata goes last
+ */
+export function joinMetadata({ tree, metadata }: SopsDocument): SopsTreeBranch {
+  return new Map([...tree, [METADATA_KEY, metadata]]);
+}
@@ -0,0 +1,69 @@
+import { Uri, workspace } from "vscode";
+import * as path from "path";
+import { SopsFormat, pathToFormat } from "./sops-format";
+import { parseSopsMetadata } from "./sops-metadata";
+
+// formats whose metadata could be told apart, YAML goes last as JSON is also
+// valid YAML
+const DETECT_ORDER = [
+  SopsFormat.json,
+  SopsFormat.env,
+  SopsFormat.ini,
+  SopsFormat.yaml,
+];
+
+// files larger than this are never SOPS files worth detecting
+export const MAX_DETECT_SIZE = 1024 * 1024;
+
+/**
+ * Whether content of JSON SOPS file is output of binary SOPS file, i.e.
+ * `{ "data": "ENC[...]", "sops": {...} }`
+ */
+function isBinaryEnvelope(content: string): boolean {
+  const doc = JSON.parse(content);
+  return (
+    Object.keys(doc).sort().join() === "data,sops" &&
+    typeof doc.data === "string" &&
+    doc.data.startsWith("ENC[")
+  );
+}
+
+/**
+ * Detect format of SOPS file by its `sops` metadata, null if `content` is not
+ * encrypted by SOPS
+ */
+export function detectSopsFormat(content: string): SopsFormat | null {
+  if (!content.includes("sops")) {
+    return null;
+  }
+  for (const format of DETECT_ORDER) {
+    const metadata = parseSopsMetadata(format, content);
+    if (!metadata || !("mac" in metadata || "version" in metadata)) {
+      continue;
+    }
+    if (format === SopsFormat.json && isBinaryEnvelope(content)) {
+      return SopsFormat.binary;
+    }
+    return format;
+  }
+  return null;
+}
+
+/**
+ * Format of SOPS file, sops infers the format from standard extensions so
+ * content is only checked for non-standard ones, e.g. `secrets.enc`
+ */
+export async function detectFileFormat(sopsUri: Uri): Promise<SopsFormat> {
+  const format = pathToFormat(sopsUri.path);
+  if (format !== SopsFormat.binary || path.extname(sopsUri.path) === ".sops") {
+    return format;
+  }
+  try {
+    const stat = await workspace.fs.stat(sopsUri);
+    if (stat.size <= MAX_DETECT_SIZE) {
+      const content = await workspace.fs.readFile(sopsUri);
+      return detectSopsFormat(Buffer.from(content).toString()) ?? format;
+    }
+  } catch (_) {}
+  return format;
+}
@@ -0,0 +1,46 @@
+import vscode from "vscode";
+import { l10n } from "vscode";
+import path from "path";
+import { SopsFs } from "./sopsfs";
+import { SopsFsProvider } from "./sopsfs-provider";
+import { detectFileFormat } from "./sops-detect";
+
+/**
+ * Custom editor opening decrypted content of SOPS file, i.e. its data file,
+ * in place of the SOPS file without mounting it as workspace folder. The
+ * webview panel only redirects to a regular text editor so language features
+ * keep working, and saving re-encrypts the SOPS file through `SopsFs`.
+ */
+export class SopsEditorProvider implements vscode.CustomTextEditorProvider {
+  static readonly viewType = "sopsfs.decryptedEditor";
+
+  async resolveCustomTextEditor(
+    document: vscode.TextDocument,
+    webviewPanel: vscode.WebviewPanel,
+    _token: vscode.CancellationToken
+  ): Promise<void> {
+    const sopsFile = document.uri;
+    const dataUri = SopsFsProvider.composeUri(
+      sopsFile,
+      "/" + SopsFs.dataFilenameOf(sopsFile, await detectFileFormat(sopsFile))
+    );
+    try {
+      await vscode.workspace.fs.stat(dataUri);
+    } catch (e) {
+      webviewPanel.dispose();
+      vscode.window.showErrorMessage(
+        l10n.t(
+          "Failed to open decrypted content of {0}",
+          path.basename(sopsFile.path)
+        )
+      );
+      console.error("failed to open decrypted sops file: " + e);
+      return;
+    }
+    await vscode.window.showTextDocument(dataUri, {
+      viewColumn: webviewPanel.viewColumn,
+      preview: false,
+    });
+    webviewPanel.dispose();
+  }
+}
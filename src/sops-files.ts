@@ -0,0 +1,258 @@
+import vscode from "vscode";
+import throttle from "lodash.throttle";
+import path from "path";
+import {
+  CONFIG_FILENAMES,
+  matchCreationRule,
+  readCreationRules,
+} from "./sops-config";
+import { MAX_DETECT_SIZE, detectSopsFormat } from "./sops-detect";
+import { expandBraces } from "./config";
+
+// keep in sync with `filenamePatterns` of `sops` language in package.json
+export const SOPS_FILE_GLOB = "**/?*.sops{,.json,.yaml,.yml,.ini,.env}";
+const SOPS_FILENAME_REGEX = /.\.sops(\.(json|yaml|yml|ini|env))?$/;
+
+const EXCLUDE_GLOB = "**/node_modules/**";
+const MAX_DETECT_FILES = 10000;
+// extensions of files whose content is checked
+const DETECT_EXTNAMES = ["", ".json", ".yaml", ".yml", ".ini", ".env", ".enc"];
+// changed files checked again, others (e.g. extensionless files, which can't
+// be told apart by glob) are only checked on scan or when .sops.yaml changes
+const WATCH_GLOB = `**/{${DETECT_EXTNAMES.filter((i) => !!i)
+  .map((i) => "*" + i)
+  .join(",")},.env*}`;
+
+/**
+ * Glob of files not searched for SOPS files, i.e. node_modules and patterns
+ * enabled in `files.exclude` and `search.exclude`
+ */
+function excludeGlob(): string {
+  const patterns = new Set([EXCLUDE_GLOB]);
+  for (const section of ["files.exclude", "search.exclude"]) {
+    const excludes =
+      vscode.workspace
+        .getConfiguration()
+        .get<Record<string, unknown>>(section) ?? {};
+    for (const [pattern, enabled] of Object.entries(excludes)) {
+      if (enabled === true) {
+        expandBraces(pattern).forEach((i) => patterns.add(i));
+      }
+    }
+  }
+  return `{${[...patterns].join(",")}}`;
+}
+
+/**
+ * Find SOPS files in workspace, or under `base` folder if given
+ */
+export async function findSopsFiles(
+  base?: vscode.Uri,
+  token?: vscode.CancellationToken
+): Promise<vscode.Uri[]> {
+  const include = base
+    ? new vscode.RelativePattern(base, SOPS_FILE_GLOB)
+    : SOPS_FILE_GLOB;
+  const uris = await vscode.workspace.findFiles(
+    include,
+    excludeGlob(),
+    undefined,
+    token
+  );
+  return uris.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+interface SopsConfig {
+  configUri: vscode.Uri;
+  rules: Record<string, any>[];
+}
+
+/**
+ * Detect SOPS files in workspace not following `*.sops.*` filename pattern,
+ * i.e. files with `sops` metadata or matched by `path_regex` of .sops.yaml.
+ * Paths of detected files are exposed as context key `sopsfs.detectedFiles`
+ * for menus.
+ */
+export class SopsFileDetector implements vscode.Disposable {
+  private onDidChangeEmitter = new vscode.EventEmitter<void>();
+  onDidChange = this.onDidChangeEmitter.event;
+
+  private detected = new Set<string>();
+  // detected by `sops` metadata, regardless of .sops.yaml
+  private byContent = new Set<string>();
+  // sorted by depth, deepest first
+  private configs: SopsConfig[] = [];
+  private subscriptions: vscode.Disposable[] = [];
+
+  constructor() {
+    const watcher = vscode.workspace.createFileSystemWatcher(WATCH_GLOB);
+    this.subscriptions.push(
+      watcher,
+      watcher.onDidCreate((uri) => this.onFileChanged(uri)),
+      watcher.onDidChange((uri) => this.onFileChanged(uri)),
+      watcher.onDidDelete((uri) => {
+        this.byContent.delete(uri.fsPath);
+        if (CONFIG_FILENAMES.includes(path.basename(uri.path))) {
+          this.reloadConfigs();
+        } else if (this.detected.delete(uri.fsPath)) {
+          this.onDetectedChanged();
+        }
+      }),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.scan())
+    );
+  }
+
+  dispose() {
+    this.subscriptions.forEach((i) => i.dispose());
+    this.updateContext.cancel();
+    this.onDidChangeEmitter.dispose();
+  }
+
+  isDetected(uri: vscode.Uri): boolean {
+    return this.detected.has(uri.fsPath);
+  }
+
+  get files(): vscode.Uri[] {
+    return [...this.detected].map((i) => vscode.Uri.file(i));
+  }
+
+  async scan() {
+    await this.loadConfigs();
+    const uris = await this.listFiles();
+    const byContent = new Set<string>();
+    for (const uri of uris) {
+      if (await this.detectByContent(uri)) {
+        byContent.add(uri.fsPath);
+      }
+    }
+    this.byContent = byContent;
+    this.applyRules(uris);
+  }
+
+  private async listFiles(): Promise<vscode.Uri[]> {
+    return await vscode.workspace.findFiles(
+      "**/*",
+      excludeGlob(),
+      MAX_DETECT_FILES
+    );
+  }
+
+  private async loadConfigs() {
+    const configUris = await vscode.workspace.findFiles(
+      `**/{${CONFIG_FILENAMES.join(",")}}`,
+      excludeGlob()
+    );
+    const configs: SopsConfig[] = [];
+    for (const configUri of configUris) {
+      try {
+        configs.push({ configUri, rules: await readCreationRules(configUri) });
+      } catch (e) {
+        console.error(`failed to read ${configUri}: ` + e);
+      }
+    }
+    this.configs = configs.sort(
+      (a, b) => b.configUri.path.length - a.configUri.path.length
+    );
+  }
+
+  /**
+   * Re-evaluate `path_regex` of changed .sops.yaml against listed files, files
+   * detected by content are not read again
+   */
+  private async reloadConfigs() {
+    await this.loadConfigs();
+    this.applyRules(await this.listFiles());
+  }
+
+  private applyRules(uris: vscode.Uri[]) {
+    const detected = new Set(
+      uris
+        .filter((i) => this.isCandidate(i))
+        .filter((i) => this.byContent.has(i.fsPath) || this.matchesPathRegex(i))
+        .map((i) => i.fsPath)
+    );
+    const changed =
+      detected.size !== this.detected.size ||
+      [...detected].some((i) => !this.detected.has(i));
+    this.detected = detected;
+    if (changed) {
+      this.onDetectedChanged();
+    }
+  }
+
+  private async onFileChanged(uri: vscode.Uri) {
+    if (CONFIG_FILENAMES.includes(path.basename(uri.path))) {
+      await this.reloadConfigs();
+      return;
+    }
+    if (await this.detectByContent(uri)) {
+      this.byContent.add(uri.fsPath);
+    } else {
+      this.byContent.delete(uri.fsPath);
+    }
+    const detected =
+      this.isCandidate(uri) &&
+      (this.byContent.has(uri.fsPath) || this.matchesPathRegex(uri));
+    if (detected === this.detected.has(uri.fsPath)) {
+      return;
+    } else if (detected) {
+      this.detected.add(uri.fsPath);
+    } else {
+      this.detected.delete(uri.fsPath);
+    }
+    this.onDetectedChanged();
+  }
+
+  private matchesPathRegex(uri: vscode.Uri): boolean {
+    const config = this.configs.find(({ configUri }) =>
+      uri.path.startsWith(path.posix.dirname(configUri.path) + "/")
+    );
+    if (!config) {
+      return false;
+    }
+    const match = matchCreationRule(config.configUri, config.rules, uri);
+    // rules without path_regex match any file
+    return !!match && typeof match.rule.path_regex === "string";
+  }
+
+  private isCandidate(uri: vscode.Uri): boolean {
+    const basename = path.basename(uri.path);
+    return (
+      uri.scheme === "file" &&
+      !SOPS_FILENAME_REGEX.test(basename) &&
+      !CONFIG_FILENAMES.includes(basename)
+    );
+  }
+
+  private async detectByContent(uri: vscode.Uri): Promise<boolean> {
+    const basename = path.basename(uri.path);
+    if (
+      !this.isCandidate(uri) ||
+      (!DETECT_EXTNAMES.includes(path.extname(basename)) &&
+        !basename.startsWith(".env"))
+    ) {
+      return false;
+    }
+    try {
+      const stat = await vscode.workspace.fs.stat(uri);
+      if (stat.type !== vscode.FileType.File || stat.size > MAX_DETECT_SIZE) {
+        return false;
+      }
+      const content = await vscode.workspace.fs.readFile(uri);
+      return detectSopsFormat(Buffer.from(content).toString()) !== null;
+    } catch (_) {
+      return false;
+    }
+  }
+
+  private onDetectedChanged() {
+    this.updateContext();
+    this.onDidChangeEmitter.fire();
+  }
+
+  private updateContext = throttle(() => {
+    const paths: Record<string, true> = {};
+    this.detected.forEach((i) => (paths[i] = true));
+    vscode.commands.executeCommand("setContext", "sopsfs.detectedFiles", paths);
+  }, 500);
+}
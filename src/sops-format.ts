@@ -0,0 +1,888 @@
+import { l10n } from "vscode";
+import * as jsonc from "jsonc-parser";
+import {
+  Document as YamlDocument,
+  Node,
+  isAlias,
+  isCollection,
+  isMap,
+  isNode,
+  isScalar,
+  isSeq,
+  parseAllDocuments,
+} from "yaml";
+import * as path from "path";
+import type { JsonObject, JsonValue } from "type-fest";
+
+export enum SopsFormat {
+  json = ".json",
+  yaml = ".yaml",
+  ini = ".ini",
+  env = ".env",
+  binary = ".sops",
+}
+
+export function pathToFormat(p: string): SopsFormat {
+  const ext = path.extname(p);
+  switch (ext) {
+    case ".json":
+      return SopsFormat.json;
+    case ".yaml":
+    case ".yml":
+      return SopsFormat.yaml;
+    case ".ini":
+      return SopsFormat.ini;
+    case ".env":
+      return SopsFormat.env;
+  }
+  return SopsFormat.binary;
+}
+
+/**
+ * Insert `.sops` into filename so it's recognized as SOPS file, e.g.
+ * `foo.json` => `foo.sops.json`, `binary` => `binary.sops`
+ */
+export function toSopsFilename(filename: string): string {
+  if (pathToFormat(filename) === SopsFormat.binary) {
+    return filename + ".sops";
+  }
+  const ext = path.extname(filename);
+  return filename.slice(0, -ext.length) + ".sops" + ext;
+}
+
+/**
+ * Plaintext of empty document of each format
+ */
+export const EMPTY_DOCUMENTS: Record<SopsFormat, string> = {
+  [SopsFormat.json]: "{}\n",
+  [SopsFormat.yaml]: "{}\n",
+  [SopsFormat.ini]: "",
+  [SopsFormat.env]: "",
+  [SopsFormat.binary]: "",
+};
+
+function keyNotFound(keyPath: string[]): Error {
+  return new Error(l10n.t("Key {0} not found", keyPath.join("/")));
+}
+
+function unsafeEdit(keyPath: string[], reason: string): Error {
+  return new Error(
+    l10n.t("Refusing to edit key {0}: {1}", keyPath.join("/"), reason)
+  );
+}
+
+function detectIndent(content: string): jsonc.FormattingOptions {
+  const match = /^([ \t]+)\S/m.exec(content);
+  if (match && match[1].startsWith("\t")) {
+    return { insertSpaces: false, tabSize: 1 };
+  }
+  return { insertSpaces: true, tabSize: match ? match[1].length : 2 };
+}
+
+function jsonPath(root: jsonc.Node | undefined, keyPath: string[]) {
+  const res: jsonc.JSONPath = [];
+  let node = root;
+  for (const key of keyPath) {
+    if (node?.type === "array") {
+      const idx = Number.parseInt(key);
+      if (!(idx >= 0 && idx.toString() === key)) {
+        throw new Error(l10n.t(`"{0}" is not a valid array index`, key));
+      }
+      res.push(idx);
+    } else {
+      res.push(key);
+    }
+    node = node && jsonc.findNodeAtLocation(node, [res[res.length - 1]]);
+    if (!node) {
+      throw keyNotFound(keyPath);
+    }
+  }
+  return res;
+}
+
+function deleteJsonKey(content: string, keyPath: string[]): string {
+  const errors: jsonc.ParseError[] = [];
+  const root = jsonc.parseTree(content, errors);
+  if (errors.length) {
+    throw unsafeEdit(keyPath, l10n.t("document is not valid JSON"));
+  }
+  const edits = jsonc.modify(content, jsonPath(root, keyPath), undefined, {
+    formattingOptions: detectIndent(content),
+  });
+  return jsonc.applyEdits(content, edits);
+}
+
+// prefix of folders holding documents of multi-document YAML, e.g. `doc-0`
+export const YAML_DOCUMENT_PREFIX = "doc-";
+
+function yamlDocumentIndex(key: string): number {
+  const match = /^doc-(0|[1-9]\d*)$/.exec(key);
+  return match ? Number.parseInt(match[1]) : -1;
+}
+
+/**
+ * Parse YAML documents to edit `keyPath`, which starts with `doc-N` of the
+ * document to edit if there are multiple documents. `docKeyPath` is the path
+ * inside the document.
+ */
+function parseYaml(
+  content: string,
+  keyPath: string[]
+): {
+  docs: YamlDocument[];
+  index: number;
+  docKeyPath: string[];
+  multiple: boolean;
+} {
+  const docs = parseAllDocuments(content);
+  if (!Array.isArray(docs) || docs.some((doc) => doc.errors.length)) {
+    throw unsafeEdit(keyPath, l10n.t("document is not valid YAML"));
+  } else if (docs.length <= 1) {
+    return {
+      docs: docs.length ? docs : [new YamlDocument(null)],
+      index: 0,
+      docKeyPath: keyPath,
+      multiple: false,
+    };
+  }
+  const index = yamlDocumentIndex(keyPath[0] ?? "");
+  // one past the last document is allowed to append a document
+  if (index < 0 || index > docs.length) {
+    throw keyNotFound(keyPath);
+  }
+  return { docs, index, docKeyPath: keyPath.slice(1), multiple: true };
+}
+
+function stringifyYaml(docs: YamlDocument[], content: string): string {
+  const options = { indent: detectIndent(content).tabSize, lineWidth: 0 };
+  return docs
+    .map((doc, idx) => {
+      if (idx > 0 && doc.directives) {
+        doc.directives.docStart = true;
+      }
+      return doc.toString(options);
+    })
+    .join("");
+}
+
+/**
+ * Resolve keys of YAML nodes, as keys in JSON tree are always strings while
+ * YAML keys could be scalars of any type
+ */
+function yamlPath(doc: YamlDocument, keyPath: string[]): unknown[] {
+  const res: unknown[] = [];
+  let node: unknown = doc.contents;
+  for (const key of keyPath) {
+    if (isAlias(node)) {
+      throw unsafeEdit(keyPath, l10n.t("path goes through a YAML alias"));
+    }
+    if (isSeq(node)) {
+      const idx = Number.parseInt(key);
+      if (!(idx >= 0 && idx.toString() === key)) {
+        throw new Error(l10n.t(`"{0}" is not a valid array index`, key));
+      }
+      if (idx >= node.items.length) {
+        throw keyNotFound(keyPath);
+      }
+      res.push(idx);
+      node = node.items[idx];
+    } else if (isMap(node)) {
+      const pairs = node.items.filter((pair) => {
+        const k = isScalar(pair.key) ? pair.key.value : pair.key;
+        return String(k) === key;
+      });
+      if (pairs.length === 0) {
+        throw keyNotFound(keyPath);
+      } else if (pairs.length > 1) {
+        throw unsafeEdit(keyPath, l10n.t("key is duplicated"));
+      }
+      res.push(pairs[0].key);
+      node = pairs[0].value;
+    } else {
+      throw keyNotFound(keyPath);
+    }
+  }
+  return res;
+}
+
+function joinComments(...comments: (string | null | undefined)[]) {
+  return comments.filter((i) => !!i).join("\n") || undefined;
+}
+
+function deleteYamlKey(content: string, keyPath: string[]): string {
+  const { docs, index, docKeyPath, multiple } = parseYaml(content, keyPath);
+  const doc = docs[index];
+  if (!doc) {
+    throw keyNotFound(keyPath);
+  } else if (multiple && !docKeyPath.length) {
+    docs.splice(index, 1);
+    return stringifyYaml(docs, content);
+  }
+  const resolved = yamlPath(doc, docKeyPath);
+  const key = resolved[resolved.length - 1];
+  const parent =
+    resolved.length > 1 ? doc.getIn(resolved.slice(0, -1)) : doc.contents;
+
+  // move comments above the key to the next entry so they are kept
+  let holders: (Node | null)[] = [];
+  if (isMap(parent)) {
+    holders = parent.items.map((pair) => (isNode(pair.key) ? pair.key : null));
+  } else if (isSeq(parent)) {
+    holders = parent.items.map((item) => (isNode(item) ? item : null));
+  }
+  const idx = isMap(parent)
+    ? parent.items.findIndex((pair) => pair.key === key)
+    : (key as number);
+  const comment = holders[idx]?.commentBefore;
+  if (comment && isCollection(parent)) {
+    const next = holders[idx + 1];
+    if (next) {
+      next.commentBefore = joinComments(comment, next.commentBefore);
+    } else if (parent === doc.contents) {
+      doc.comment = joinComments(comment, doc.comment) ?? null;
+    } else {
+      parent.comment = joinComments(comment, parent.comment);
+    }
+  }
+
+  doc.deleteIn(resolved);
+  return stringifyYaml(docs, content);
+}
+
+const INI_DEFAULT_SECTION = "DEFAULT";
+
+interface IniLine {
+  section: string;
+  // section header if key is null
+  key: string | null;
+  value: string;
+  // index of first & last line, inclusive
+  start: number;
+  end: number;
+}
+
+function unquoteIniValue(value: string): string {
+  for (const quote of ['"""', "`", '"', "'"]) {
+    if (
+      value.length >= quote.length * 2 &&
+      value.startsWith(quote) &&
+      value.endsWith(quote)
+    ) {
+      return value.slice(quote.length, -quote.length);
+    }
+  }
+  return value;
+}
+
+function scanIniLines(lines: string[]): IniLine[] {
+  const res: IniLine[] = [];
+  let section = INI_DEFAULT_SECTION;
+  for (let i = 0; i < lines.length; ++i) {
+    const line = lines[i];
+    const header = /^\s*\[([^\]]*)\]\s*$/.exec(line);
+    if (header) {
+      section = header[1].trim();
+      res.push({ section, key: null, value: "", start: i, end: i });
+      continue;
+    }
+    const entry = /^\s*([^=:;#\s][^=:]*?)\s*[=:]\s*(.*)$/.exec(line);
+    if (!entry) {
+      continue;
+    }
+    let end = i;
+    let value = entry[2];
+    // go-ini quotes values containing newlines with """
+    if (value.startsWith('"""') && !value.slice(3).includes('"""')) {
+      do {
+        ++end;
+      } while (end < lines.length && !lines[end].includes('"""'));
+      if (end >= lines.length) {
+        throw new Error(l10n.t("unterminated multi-line value"));
+      }
+      value = [value, ...lines.slice(i + 1, end + 1)].join("\n").trimEnd();
+    }
+    res.push({
+      section,
+      key: entry[1],
+      value: unquoteIniValue(value.trim()),
+      start: i,
+      end,
+    });
+    i = end;
+  }
+  return res;
+}
+
+function deleteIniKey(content: string, keyPath: string[]): string {
+  if (keyPath.length === 0 || keyPath.length > 2) {
+    throw unsafeEdit(keyPath, l10n.t("INI only has sections and keys"));
+  }
+  const lines = content.split("\n");
+  const scanned = scanIniLines(lines);
+  const [section, key] = keyPath;
+
+  let ranges: [number, number][];
+  if (key === undefined) {
+    // remove the section header along with all its entries
+    const headers = scanned.filter((i) => i.key === null);
+    ranges = [];
+    if (section === INI_DEFAULT_SECTION) {
+      const firstHeader = headers.find((i) => i.section !== section);
+      const entries = scanned.filter(
+        (i) =>
+          i.key !== null &&
+          i.section === section &&
+          (!firstHeader || i.start < firstHeader.start)
+      );
+      ranges.push(...entries.map((i): [number, number] => [i.start, i.end]));
+    }
+    for (const header of headers.filter((i) => i.section === section)) {
+      const next = headers.find((i) => i.start > header.start);
+      let end = (next ? next.start : lines.length) - 1;
+      // leave comments and blank lines belonging to next section
+      while (end > header.start && /^\s*([;#].*)?$/.test(lines[end])) {
+        --end;
+      }
+      ranges.push([header.start, end]);
+    }
+  } else {
+    ranges = scanned
+      .filter((i) => i.section === section && i.key === key)
+      .map((i) => [i.start, i.end]);
+    if (ranges.length > 1) {
+      throw unsafeEdit(keyPath, l10n.t("key is duplicated"));
+    }
+  }
+  if (ranges.length === 0) {
+    throw keyNotFound(keyPath);
+  }
+  const removed = new Set<number>();
+  for (const [start, end] of ranges) {
+    for (let i = start; i <= end; ++i) {
+      removed.add(i);
+    }
+  }
+  return lines.filter((_, i) => !removed.has(i)).join("\n");
+}
+
+function envKeyLines(lines: string[], key: string): number[] {
+  return lines.flatMap((line, i) => (line.startsWith(key + "=") ? [i] : []));
+}
+
+function deleteEnvKey(content: string, keyPath: string[]): string {
+  if (keyPath.length !== 1) {
+    throw unsafeEdit(keyPath, l10n.t("ENV only has top-level keys"));
+  }
+  const [key] = keyPath;
+  const lines = content.split("\n");
+  const matched = envKeyLines(lines, key);
+  if (matched.length === 0) {
+    throw keyNotFound(keyPath);
+  } else if (matched.length > 1) {
+    throw unsafeEdit(keyPath, l10n.t("key is duplicated"));
+  }
+  lines.splice(matched[0], 1);
+  return lines.join("\n");
+}
+
+/**
+ * Remove exactly one key or array element from decrypted SOPS document,
+ * throws if the key could not be removed without touching anything else.
+ */
+export function deleteKey(
+  format: SopsFormat,
+  content: string,
+  keyPath: string[]
+): string {
+  if (keyPath.length === 0) {
+    throw unsafeEdit(keyPath, l10n.t("root can't be deleted"));
+  }
+  switch (format) {
+    case SopsFormat.json:
+      return deleteJsonKey(content, keyPath);
+    case SopsFormat.yaml:
+      return deleteYamlKey(content, keyPath);
+    case SopsFormat.ini:
+      return deleteIniKey(content, keyPath);
+    case SopsFormat.env:
+      return deleteEnvKey(content, keyPath);
+  }
+  throw unsafeEdit(keyPath, l10n.t("binary file has no keys"));
+}
+
+function setJsonKey(
+  content: string,
+  keyPath: string[],
+  value: JsonValue
+): string {
+  const errors: jsonc.ParseError[] = [];
+  const root = jsonc.parseTree(content, errors);
+  if (errors.length || !root) {
+    throw unsafeEdit(keyPath, l10n.t("document is not valid JSON"));
+  }
+  const parentPath = jsonPath(root, keyPath.slice(0, -1));
+  const parent = jsonc.findNodeAtLocation(root, parentPath);
+  const key = keyPath[keyPath.length - 1];
+  let last: string | number = key;
+  if (parent?.type === "array") {
+    last = Number.parseInt(key);
+    if (!(last >= 0 && last.toString() === key)) {
+      throw new Error(l10n.t(`"{0}" is not a valid array index`, key));
+    } else if (last > (parent.children?.length ?? 0)) {
+      throw keyNotFound(keyPath);
+    }
+  } else if (parent?.type !== "object") {
+    throw unsafeEdit(keyPath, l10n.t("parent is not a dictionary or array"));
+  }
+  const edits = jsonc.modify(content, [...parentPath, last], value, {
+    formattingOptions: detectIndent(content),
+  });
+  return jsonc.applyEdits(content, edits);
+}
+
+function replaceYamlValue(
+  doc: YamlDocument,
+  old: unknown,
+  value: JsonValue
+): unknown {
+  // update scalar in place to keep its style
+  if (
+    isScalar(old) &&
+    typeof old.value === typeof value &&
+    (value === null || typeof value !== "object")
+  ) {
+    old.value = value;
+    return old;
+  }
+  const node = doc.createNode(value);
+  if (isNode(old)) {
+    node.comment = old.comment;
+  }
+  return node;
+}
+
+function setYamlKey(
+  content: string,
+  keyPath: string[],
+  value: JsonValue
+): string {
+  const { docs, index, docKeyPath, multiple } = parseYaml(content, keyPath);
+  if (multiple && !docKeyPath.length) {
+    if (typeof value !== "object" || !value || Array.isArray(value)) {
+      throw unsafeEdit(keyPath, l10n.t("YAML document must be a dictionary"));
+    }
+    docs[index] = new YamlDocument(value);
+    return stringifyYaml(docs, content);
+  }
+  const doc = docs[index];
+  if (!doc) {
+    throw keyNotFound(keyPath);
+  }
+  const parentPath = yamlPath(doc, docKeyPath.slice(0, -1));
+  const parent = parentPath.length ? doc.getIn(parentPath, true) : doc.contents;
+  const key = docKeyPath[docKeyPath.length - 1];
+  if (isSeq(parent)) {
+    const idx = Number.parseInt(key);
+    if (!(idx >= 0 && idx.toString() === key)) {
+      throw new Error(l10n.t(`"{0}" is not a valid array index`, key));
+    } else if (idx < parent.items.length) {
+      parent.items[idx] = replaceYamlValue(doc, parent.items[idx], value);
+    } else if (idx === parent.items.length) {
+      parent.items.push(doc.createNode(value));
+    } else {
+      throw keyNotFound(keyPath);
+    }
+  } else if (isMap(parent)) {
+    const pairs = parent.items.filter((pair) => {
+      const k = isScalar(pair.key) ? pair.key.value : pair.key;
+      return String(k) === key;
+    });
+    if (pairs.length > 1) {
+      throw unsafeEdit(keyPath, l10n.t("key is duplicated"));
+    } else if (pairs.length === 1) {
+      pairs[0].value = replaceYamlValue(doc, pairs[0].value, value);
+    } else {
+      parent.items.push(doc.createPair(key, value));
+    }
+  } else if (
+    (!parent || (isScalar(parent) && parent.value === null)) &&
+    docKeyPath.length === 1
+  ) {
+    // empty document
+    doc.contents = doc.createNode({ [key]: value });
+  } else {
+    throw unsafeEdit(keyPath, l10n.t("parent is not a dictionary or array"));
+  }
+  return stringifyYaml(docs, content);
+}
+
+function iniValue(keyPath: string[], value: JsonValue): string {
+  if (value !== null && typeof value === "object") {
+    throw unsafeEdit(keyPath, l10n.t("INI only has sections and keys"));
+  }
+  const str = value === null ? "" : value.toString();
+  if (str.includes("\n")) {
+    return `"""${str}"""`;
+  } else if (/[;#`"']|^\s|\s$/.test(str)) {
+    return "`" + str + "`";
+  }
+  return str;
+}
+
+function trailingInsertIndex(lines: string[]): number {
+  return lines.length > 0 && lines[lines.length - 1] === ""
+    ? lines.length - 1
+    : lines.length;
+}
+
+function setIniKey(
+  content: string,
+  keyPath: string[],
+  value: JsonValue
+): string {
+  if (keyPath.length === 0 || keyPath.length > 2) {
+    throw unsafeEdit(keyPath, l10n.t("INI only has sections and keys"));
+  }
+  const [section, key] = keyPath;
+  if (/[\]\n]/.test(section) || (key && /^[\s;#[]|[=:\n]/.test(key))) {
+    throw unsafeEdit(keyPath, l10n.t("name is not valid in INI"));
+  }
+
+  if (key === undefined) {
+    if (value === null || typeof value !== "object" || Array.isArray(value)) {
+      throw unsafeEdit(keyPath, l10n.t("INI only has sections and keys"));
+    }
+    try {
+      content = deleteIniKey(content, keyPath);
+    } catch (_) {}
+    const lines = content.split("\n");
+    const entries = Object.entries(value).map(
+      ([k, v]) => `${k} = ${iniValue([section, k], v ?? null)}`
+    );
+    const idx = trailingInsertIndex(lines);
+    lines.splice(idx, 0, ...(idx > 0 ? [""] : []), `[${section}]`, ...entries);
+    return lines.join("\n");
+  }
+
+  const lines = content.split("\n");
+  const scanned = scanIniLines(lines);
+  const line = `${key} = ${iniValue(keyPath, value)}`;
+  const existing = scanned.filter(
+    (i) => i.section === section && i.key === key
+  );
+  if (existing.length > 1) {
+    throw unsafeEdit(keyPath, l10n.t("key is duplicated"));
+  } else if (existing.length === 1) {
+    const [{ start, end }] = existing;
+    lines.splice(start, end - start + 1, line);
+    return lines.join("\n");
+  }
+
+  const inSection = scanned.filter((i) => i.section === section);
+  const firstHeader = scanned.find((i) => i.key === null);
+  if (inSection.length > 0) {
+    lines.splice(inSection[inSection.length - 1].end + 1, 0, line);
+  } else if (section === INI_DEFAULT_SECTION) {
+    lines.splice(firstHeader ? firstHeader.start : 0, 0, line);
+  } else {
+    const idx = trailingInsertIndex(lines);
+    lines.splice(idx, 0, ...(idx > 0 ? [""] : []), `[${section}]`, line);
+  }
+  return lines.join("\n");
+}
+
+function setEnvKey(content: string, keyPath: string[], value: JsonValue) {
+  if (keyPath.length !== 1 || (value !== null && typeof value === "object")) {
+    throw unsafeEdit(keyPath, l10n.t("ENV only has top-level keys"));
+  }
+  const [key] = keyPath;
+  if (/[=\s#]/.test(key) || !key) {
+    throw unsafeEdit(keyPath, l10n.t("name is not valid in ENV"));
+  }
+  // sops escapes newlines in dotenv values
+  const line =
+    key + "=" + (value === null ? "" : value.toString().replace(/\n/g, "\\n"));
+  const lines = content.split("\n");
+  const matched = envKeyLines(lines, key);
+  if (matched.length > 1) {
+    throw unsafeEdit(keyPath, l10n.t("key is duplicated"));
+  } else if (matched.length === 1) {
+    lines[matched[0]] = line;
+  } else {
+    lines.splice(trailingInsertIndex(lines), 0, line);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Set value of a key or array element in decrypted SOPS document, the parent
+ * must exist.
+ */
+export function setKey(
+  format: SopsFormat,
+  content: string,
+  keyPath: string[],
+  value: JsonValue
+): string {
+  if (keyPath.length === 0) {
+    throw unsafeEdit(keyPath, l10n.t("root can't be replaced"));
+  }
+  switch (format) {
+    case SopsFormat.json:
+      return setJsonKey(content, keyPath, value);
+    case SopsFormat.yaml:
+      return setYamlKey(content, keyPath, value);
+    case SopsFormat.ini:
+      return setIniKey(content, keyPath, value);
+    case SopsFormat.env:
+      return setEnvKey(content, keyPath, value);
+  }
+  throw unsafeEdit(keyPath, l10n.t("binary file has no keys"));
+}
+
+function yamlDocumentTree(doc: YamlDocument): JsonObject {
+  if (doc.errors.length) {
+    throw doc.errors[0];
+  }
+  const tree = doc.toJS() ?? {};
+  if (typeof tree !== "object" || Array.isArray(tree)) {
+    throw new Error(l10n.t("document is not a YAML mapping"));
+  }
+  return tree;
+}
+
+/**
+ * Parse YAML into tree, documents of multi-document YAML are put under
+ * `doc-N` keys
+ */
+function parseYamlTree(content: string): JsonObject {
+  const docs = parseAllDocuments(content);
+  if (!Array.isArray(docs) || docs.length === 0) {
+    return {};
+  } else if (docs.length === 1) {
+    return yamlDocumentTree(docs[0]);
+  }
+  return Object.fromEntries(
+    docs.map((doc, idx) => [YAML_DOCUMENT_PREFIX + idx, yamlDocumentTree(doc)])
+  );
+}
+
+/**
+ * Whether decrypted `content` is YAML with multiple documents
+ */
+export function isMultiDocument(format: SopsFormat, content: string): boolean {
+  if (format !== SopsFormat.yaml) {
+    return false;
+  }
+  const docs = parseAllDocuments(content);
+  return Array.isArray(docs) && docs.length > 1;
+}
+
+function parseIniTree(content: string): JsonObject {
+  const tree: Record<string, Record<string, string>> = {};
+  for (const line of scanIniLines(content.split("\n"))) {
+    const section = (tree[line.section] ??= {});
+    if (line.key !== null) {
+      section[line.key] = line.value;
+    }
+  }
+  return tree;
+}
+
+function parseEnvTree(content: string): JsonObject {
+  const tree: Record<string, string> = {};
+  for (const line of content.split("\n")) {
+    if (!line.trim() || line.startsWith("#")) {
+      continue;
+    }
+    const idx = line.indexOf("=");
+    if (idx <= 0) {
+      throw new Error(l10n.t("invalid dotenv line: {0}", line));
+    }
+    // sops escapes newlines in dotenv values
+    tree[line.slice(0, idx)] = line.slice(idx + 1).replace(/\\n/g, "\n");
+  }
+  return tree;
+}
+
+/**
+ * Parse decrypted SOPS document into the same tree as
+ * `sops --output-type json` would produce, null for binary file.
+ */
+export function parseDecrypted(
+  format: SopsFormat,
+  content: string
+): JsonObject | null {
+  switch (format) {
+    case SopsFormat.json:
+      return JSON.parse(content);
+    case SopsFormat.yaml:
+      return parseYamlTree(content);
+    case SopsFormat.ini:
+      return parseIniTree(content);
+    case SopsFormat.env:
+      return parseEnvTree(content);
+  }
+  return null;
+}
+
+/**
+ * Parse string value holding a JSON or YAML dictionary, i.e. an embedded
+ * document, null if it's neither
+ */
+export function parseEmbeddedDocument(
+  content: string
+): { format: SopsFormat.json | SopsFormat.yaml; tree: JsonObject } | null {
+  if (!content.trim()) {
+    return null;
+  }
+  for (const format of [SopsFormat.json, SopsFormat.yaml] as const) {
+    try {
+      const tree = parseDecrypted(format, content);
+      if (typeof tree === "object" && tree && !Array.isArray(tree)) {
+        return { format, tree };
+      }
+    } catch (_) {}
+  }
+  return null;
+}
+
+export interface LeafLocation {
+  keyPath: string[];
+  // offsets of the value in content, quotes included
+  start: number;
+  end: number;
+  value: string;
+}
+
+function locateJsonLeaves(content: string): LeafLocation[] {
+  const res: LeafLocation[] = [];
+  const visit = (node: jsonc.Node, keyPath: string[]) => {
+    if (node.type === "object") {
+      for (const prop of node.children ?? []) {
+        const [key, value] = prop.children ?? [];
+        if (key && value && (keyPath.length || key.value !== "sops")) {
+          visit(value, [...keyPath, String(key.value)]);
+        }
+      }
+    } else if (node.type === "array") {
+      node.children?.forEach((child, idx) =>
+        visit(child, [...keyPath, String(idx)])
+      );
+    } else {
+      res.push({
+        keyPath,
+        start: node.offset,
+        end: node.offset + node.length,
+        value: String(node.value),
+      });
+    }
+  };
+  const root = jsonc.parseTree(content);
+  if (root) {
+    visit(root, []);
+  }
+  return res;
+}
+
+function locateYamlLeaves(content: string): LeafLocation[] {
+  const res: LeafLocation[] = [];
+  const visit = (node: unknown, keyPath: string[], docRoot: boolean) => {
+    if (isMap(node)) {
+      for (const pair of node.items) {
+        const key = isScalar(pair.key) ? String(pair.key.value) : "";
+        if (!docRoot || key !== "sops") {
+          visit(pair.value, [...keyPath, key], false);
+        }
+      }
+    } else if (isSeq(node)) {
+      node.items.forEach((item, idx) =>
+        visit(item, [...keyPath, String(idx)], false)
+      );
+    } else if (isScalar(node) && node.range) {
+      res.push({
+        keyPath,
+        start: node.range[0],
+        end: node.range[1],
+        value: String(node.value),
+      });
+    }
+  };
+  const docs = parseAllDocuments(content);
+  if (Array.isArray(docs)) {
+    docs.forEach((doc, idx) =>
+      visit(
+        doc.contents,
+        docs.length > 1 ? [YAML_DOCUMENT_PREFIX + idx] : [],
+        true
+      )
+    );
+  }
+  return res;
+}
+
+function lineOffsets(lines: string[]): number[] {
+  const res: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    res.push(offset);
+    offset += line.length + 1;
+  }
+  return res;
+}
+
+function locateIniLeaves(content: string): LeafLocation[] {
+  const lines = content.split("\n");
+  const offsets = lineOffsets(lines);
+  return scanIniLines(lines)
+    .filter((i) => i.key !== null && i.section !== "sops")
+    .map(({ section, key, value, start, end }) => {
+      const sep = /^[^=:]*[=:]\s*/.exec(lines[start])?.[0].length ?? 0;
+      return {
+        keyPath: [section, key as string],
+        start: offsets[start] + sep,
+        end: offsets[end] + lines[end].trimEnd().length,
+        value,
+      };
+    });
+}
+
+function locateEnvLeaves(content: string): LeafLocation[] {
+  const lines = content.split("\n");
+  const offsets = lineOffsets(lines);
+  return lines.flatMap((line, i) => {
+    const idx = line.indexOf("=");
+    if (line.startsWith("#") || idx <= 0 || line.startsWith("sops_")) {
+      return [];
+    }
+    return [
+      {
+        keyPath: [line.slice(0, idx)],
+        start: offsets[i] + idx + 1,
+        end: offsets[i] + line.trimEnd().length,
+        value: line.slice(idx + 1).trimEnd(),
+      },
+    ];
+  });
+}
+
+/**
+ * Locate values of encrypted SOPS file by key paths of the decrypted tree,
+ * `sops` metadata excluded
+ */
+export function locateLeaves(
+  format: SopsFormat,
+  content: string
+): LeafLocation[] {
+  switch (format) {
+    case SopsFormat.json:
+      return locateJsonLeaves(content);
+    case SopsFormat.yaml:
+      return locateYamlLeaves(content);
+    case SopsFormat.ini:
+      return locateIniLeaves(content);
+    case SopsFormat.env:
+      return locateEnvLeaves(content);
+  }
+  return [];
+}
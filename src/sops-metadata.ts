@@ -0,0 +1,209 @@
+import { l10n } from "vscode";
+import type { JsonObject, JsonValue } from "type-fest";
+import { parseAllDocuments } from "yaml";
+import { SopsFormat } from "./sops-format";
+
+/**
+ * Metadata keys of master keys and names of the fields identifying them
+ */
+export const MASTER_KEY_TYPES: Record<string, string[]> = {
+  age: ["recipient"],
+  pgp: ["fp"],
+  kms: ["arn", "role", "aws_profile"],
+  ["gcp_kms"]: ["resource_id"],
+  ["azure_kv"]: ["vault_url", "name", "version"],
+  ["hc_vault"]: ["vault_address", "engine_path", "key_name"],
+};
+
+export interface Recipient {
+  // index of key group, null if key groups are not used
+  group: number | null;
+  type: string;
+  id: string;
+}
+
+function isDict(value: unknown): value is JsonObject {
+  return typeof value === "object" && !!value && !Array.isArray(value);
+}
+
+/**
+ * Reverse flattening of metadata in INI & ENV files, e.g.
+ * `age__list_0__map_recipient`
+ */
+function unflatten(entries: [string, string][]): JsonObject {
+  const res: JsonObject = {};
+  for (const [flatKey, value] of entries) {
+    const keys: (string | number)[] = flatKey.split("__").map((key, idx) => {
+      if (idx === 0) {
+        return key;
+      } else if (key.startsWith("list_")) {
+        return Number.parseInt(key.slice("list_".length));
+      } else if (key.startsWith("map_")) {
+        return key.slice("map_".length);
+      }
+      return key;
+    });
+    let node: any = res;
+    keys.forEach((key, idx) => {
+      if (idx === keys.length - 1) {
+        node[key] = value;
+        return;
+      }
+      node[key] ??= typeof keys[idx + 1] === "number" ? [] : {};
+      node = node[key];
+    });
+  }
+  return res;
+}
+
+/**
+ * Parse `sops` metadata from encrypted SOPS file, null if not found
+ */
+export function parseSopsMetadata(
+  format: SopsFormat,
+  encrypted: string
+): JsonObject | null {
+  try {
+    switch (format) {
+      case SopsFormat.json:
+      case SopsFormat.binary: {
+        const doc = JSON.parse(encrypted);
+        return isDict(doc?.sops) ? doc.sops : null;
+      }
+      case SopsFormat.yaml: {
+        for (const doc of parseAllDocuments(encrypted) as any[]) {
+          const sops = doc.toJS?.()?.sops;
+          if (isDict(sops)) {
+            return sops;
+          }
+        }
+        return null;
+      }
+      case SopsFormat.ini: {
+        const entries: [string, string][] = [];
+        let inSection = false;
+        for (const line of encrypted.split("\n")) {
+          const header = /^\s*\[([^\]]*)\]\s*$/.exec(line);
+          if (header) {
+            inSection = header[1].trim() === "sops";
+            continue;
+          }
+          const entry = /^\s*([^=;#\s][^=]*?)\s*=\s*(.*)$/.exec(line);
+          if (inSection && entry) {
+            entries.push([entry[1], entry[2].trim()]);
+          }
+        }
+        return entries.length ? unflatten(entries) : null;
+      }
+      case SopsFormat.env: {
+        const entries: [string, string][] = [];
+        for (const line of encrypted.split("\n")) {
+          const idx = line.indexOf("=");
+          if (line.startsWith("sops_") && idx > 0) {
+            entries.push([
+              line.slice("sops_".length, idx),
+              line.slice(idx + 1).replace(/\\n/g, "\n"),
+            ]);
+          }
+        }
+        return entries.length ? unflatten(entries) : null;
+      }
+    }
+  } catch (_) {}
+  return null;
+}
+
+function masterKeyId(type: string, key: JsonValue): string {
+  if (!isDict(key)) {
+    return String(key);
+  }
+  return (MASTER_KEY_TYPES[type] ?? [])
+    .map((field) => key[field])
+    .filter((value) => typeof value === "string" && value)
+    .join(" ");
+}
+
+function collectRecipients(
+  keys: JsonObject,
+  group: number | null
+): Recipient[] {
+  const res: Recipient[] = [];
+  for (const type of Object.keys(MASTER_KEY_TYPES)) {
+    const list = keys[type];
+    if (!Array.isArray(list)) {
+      continue;
+    }
+    for (const key of list) {
+      res.push({ group, type, id: masterKeyId(type, key) });
+    }
+  }
+  return res;
+}
+
+/**
+ * Master keys able to decrypt data key of SOPS file
+ */
+export function listRecipients(metadata: JsonObject): Recipient[] {
+  const groups = metadata.key_groups;
+  if (Array.isArray(groups) && groups.length > 0) {
+    return groups.flatMap((group, idx) =>
+      isDict(group) ? collectRecipients(group, idx) : []
+    );
+  }
+  return collectRecipients(metadata, null);
+}
+
+const ENCRYPTION_RULES = [
+  "unencrypted_suffix",
+  "encrypted_suffix",
+  "unencrypted_regex",
+  "encrypted_regex",
+  "unencrypted_comment_regex",
+  "encrypted_comment_regex",
+  "mac_only_encrypted",
+];
+
+/**
+ * Render metadata in human readable markdown
+ */
+export function renderSopsMetadata(metadata: JsonObject): string {
+  const lines = [`# ${l10n.t("SOPS metadata")}`, ""];
+  const field = (name: string, value: JsonValue | undefined) => {
+    if (value !== undefined && value !== null && value !== "") {
+      lines.push(`- ${name}: \`${value}\``);
+    }
+  };
+  field(l10n.t("Version"), metadata.version);
+  field(l10n.t("Last modified"), metadata.lastmodified);
+  field(l10n.t("MAC"), metadata.mac);
+  for (const rule of ENCRYPTION_RULES) {
+    field(rule, metadata[rule]);
+  }
+  field("shamir_threshold", metadata.shamir_threshold);
+
+  lines.push("", `## ${l10n.t("Recipients")}`, "");
+  let group: number | null = null;
+  for (const recipient of listRecipients(metadata)) {
+    if (recipient.group !== null && recipient.group !== group) {
+      const title = l10n.t("Key group {0}", recipient.group + 1);
+      if (lines[lines.length - 1] !== "") {
+        lines.push("");
+      }
+      lines.push(`### ${title}`, "");
+    }
+    group = recipient.group;
+    lines.push(`- ${recipient.type}: \`${recipient.id}\``);
+  }
+  lines.push("");
+  return lines.join("\n");
+}
+
+/**
+ * Files listed in metadata folder of mounted SOPS file
+ */
+export function metadataFiles(metadata: JsonObject): Record<string, string> {
+  return {
+    ["summary.md"]: renderSopsMetadata(metadata),
+    ["metadata.json"]: JSON.stringify(metadata, null, 2) + "\n",
+  };
+}
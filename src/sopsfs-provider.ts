@@ -1,10 +1,19 @@
-import vscode, { Disposable } from "vscode";
+import vscode, { Disposable, l10n } from "vscode";
 import LRUCache from "lru-cache";
-import { SopsFs } from "./sopsfs";
+import { LeafEncryption, SopsFs } from "./sopsfs";
+import { DecryptedCache } from "./decrypted-cache";
+import { GitRevisionProvider } from "./git-revision";
+import { detectFileFormat } from "./sops-detect";
+import type { SopsBackendName } from "./config";
+import type { EmbeddedDocuments } from "./embedded-docs";
+import type { LeafExtensionOptions } from "./leaf-extensions";
+import type { SnapshotStore } from "./snapshots";
 
 function parseUri(uri: vscode.Uri): {
   sopsFile: vscode.Uri;
   fsUri: vscode.Uri;
+  // git revision of SOPS file, null for the working copy
+  ref: string | null;
 } {
   const paths = uri.path.split("/").filter((i) => !!i);
   const uriEncoded = paths.shift();
@@ -18,32 +27,151 @@ function parseUri(uri: vscode.Uri): {
   const fsUri = vscode.Uri.from({
     ...uri,
     path: "/" + paths.join("/"),
+    query: "",
   });
 
   return {
     sopsFile,
     fsUri,
+    ref: new URLSearchParams(uri.query).get("ref"),
   };
 }
 
 interface SopsFsProviderOpts {
   sopsCmd: string;
   env: Record<string, string>;
+  backend: SopsBackendName;
+  inferValueTypes: boolean;
+  leafExtensions: LeafExtensionOptions;
 }
 
+// resolves options per SOPS file
+type SopsFsProviderOptsResolver = (
+  sopsFile: vscode.Uri
+) => Partial<SopsFsProviderOpts>;
+
 export class SopsFsProvider implements vscode.FileSystemProvider {
   private onDidChangeEmitter = new vscode.EventEmitter<
     vscode.FileChangeEvent[]
   >();
   onDidChangeFile = this.onDidChangeEmitter.event;
 
-  opts: SopsFsProviderOpts;
+  private resolveOpts: SopsFsProviderOptsResolver;
+
+  constructor(
+    opts?: Partial<SopsFsProviderOpts> | SopsFsProviderOptsResolver,
+    private embedded?: EmbeddedDocuments,
+    private snapshots?: SnapshotStore
+  ) {
+    this.resolveOpts = typeof opts === "function" ? opts : () => ({ ...opts });
+  }
+
+  /**
+   * Options of sops command for `sopsFile`
+   */
+  optsFor(sopsFile: vscode.Uri): SopsFsProviderOpts {
+    const opts = this.resolveOpts(sopsFile);
+    return {
+      sopsCmd: "sops",
+      backend: "sops",
+      inferValueTypes: false,
+      leafExtensions: { rules: {}, detect: false },
+      ...opts,
+      env: { ...opts.env },
+    };
+  }
+
+  /**
+   * Close opened SOPS files affected by changed options, they are reopened
+   * with new options on next access
+   */
+  reloadOpts(affects: (sopsFile: vscode.Uri) => boolean = () => true) {
+    const events: vscode.FileChangeEvent[] = [];
+    for (const [key, [, , sopsFile, ref]] of [...this.fsCache.entries()]) {
+      if (affects(sopsFile)) {
+        this.fsCache.delete(key);
+        events.push({
+          type: vscode.FileChangeType.Changed,
+          uri: SopsFsProvider.composeUri(sopsFile, "/", ref),
+        });
+      }
+    }
+    if (events.length) {
+      this.onDidChangeEmitter.fire(events);
+    }
+  }
 
-  constructor(opts?: Partial<SopsFsProviderOpts>) {
-    this.opts = { sopsCmd: "sops", ...opts, env: { ...opts?.env } };
+  private decryptedCache = new DecryptedCache();
+  onDidChangeDecrypted = this.decryptedCache.onDidChange;
+
+  /**
+   * Number of SOPS files decrypted right now
+   */
+  get decryptedCount(): number {
+    return this.decryptedCache.size;
   }
 
-  private fsCache = new LRUCache<string, [SopsFs, Disposable]>({
+  private onDidChangeLockEmitter = new vscode.EventEmitter<void>();
+  onDidChangeLock = this.onDidChangeLockEmitter.event;
+  // roots of SOPS files opened before or while locked, refreshed on unlock
+  private lockedRoots = new Map<string, vscode.Uri>();
+  private locked = false;
+  private lastAccessTime = Date.now();
+
+  /**
+   * Whether SOPS files are refused to decrypt until `unlock`
+   */
+  get isLocked(): boolean {
+    return this.locked;
+  }
+
+  /**
+   * When a SOPS file was last accessed, in milliseconds
+   */
+  get lastAccess(): number {
+    return this.lastAccessTime;
+  }
+
+  /**
+   * Drop all decrypted content held in memory, they are decrypted again on
+   * next access unless `keepLocked`, which refuses to until `unlock`
+   */
+  lock(keepLocked: boolean) {
+    const roots = [...this.fsCache.values()].map(([, , sopsFile, ref]) =>
+      SopsFsProvider.composeUri(sopsFile, "/", ref)
+    );
+    // listeners are disposed first, so nothing is read again on invalidation
+    this.fsCache.clear();
+    this.decryptedCache.clear();
+    if (keepLocked) {
+      roots.forEach((i) => this.lockedRoots.set(i.toString(), i));
+      if (!this.locked) {
+        this.locked = true;
+        this.onDidChangeLockEmitter.fire();
+      }
+    }
+  }
+
+  unlock() {
+    if (!this.locked) {
+      return;
+    }
+    this.locked = false;
+    this.onDidChangeLockEmitter.fire();
+    const events = [...this.lockedRoots.values()].map((uri) => ({
+      type: vscode.FileChangeType.Changed,
+      uri,
+    }));
+    this.lockedRoots.clear();
+    if (events.length) {
+      this.onDidChangeEmitter.fire(events);
+    }
+  }
+
+  private fsCache = new LRUCache<
+    string,
+    [SopsFs, Disposable, vscode.Uri, string | null]
+  >({
     max: 64,
     dispose([fs, listener]) {
       listener.dispose();
@@ -52,17 +180,37 @@ export class SopsFsProvider implements vscode.FileSystemProvider {
   });
 
   private async getOrOpenFs(uri: vscode.Uri): Promise<[SopsFs, vscode.Uri]> {
-    const { sopsFile, fsUri } = parseUri(uri);
-    const uriKey = sopsFile.toString();
+    const { sopsFile, fsUri, ref } = parseUri(uri);
+    if (this.locked) {
+      const root = SopsFsProvider.composeUri(sopsFile, "/", ref);
+      this.lockedRoots.set(root.toString(), root);
+      throw vscode.FileSystemError.NoPermissions(
+        l10n.t('SOPS files are locked, run "Unlock SOPS files" to decrypt them')
+      );
+    }
+    this.lastAccessTime = Date.now();
+    // SOPS file at a git revision is read through local git
+    const sopsUri = ref
+      ? GitRevisionProvider.composeUri(sopsFile, ref)
+      : sopsFile;
+    const uriKey = sopsUri.toString();
     let fs = this.fsCache.get(uriKey)?.[0];
     if (!fs) {
-      fs = new SopsFs({ ...this.opts, sopsUri: sopsFile });
+      fs = new SopsFs({
+        ...this.optsFor(sopsFile),
+        sopsUri,
+        cache: this.decryptedCache,
+        format: await detectFileFormat(sopsUri),
+        isExpanded: (path) => !!this.embedded?.isExpanded(sopsFile, path),
+        onWillOverwrite: async (encrypted) =>
+          await this.snapshots?.save(sopsFile, encrypted),
+      });
       await fs.stat(vscode.Uri.from({ scheme: "sops", path: "/" }));
 
       const listener = fs.onDidChangeFile((events) => {
         const newEvents: vscode.FileChangeEvent[] = [];
         for (const e of events) {
-          const uri = SopsFsProvider.composeUri(sopsFile, e.uri.path);
+          const uri = SopsFsProvider.composeUri(sopsFile, e.uri.path, ref);
           // TODO: filter out uri that were not watched
           newEvents.push({
             type: e.type,
@@ -72,11 +220,20 @@ export class SopsFsProvider implements vscode.FileSystemProvider {
         this.onDidChangeEmitter.fire(newEvents);
       });
 
-      this.fsCache.set(uriKey, [fs, listener]);
+      this.fsCache.set(uriKey, [fs, listener, sopsFile, ref]);
     }
     return [fs, fsUri];
   }
 
+  private async getOrOpenWritableFs(
+    uri: vscode.Uri
+  ): Promise<[SopsFs, vscode.Uri]> {
+    if (parseUri(uri).ref) {
+      throw vscode.FileSystemError.NoPermissions(uri);
+    }
+    return await this.getOrOpenFs(uri);
+  }
+
   watch(
     uri: vscode.Uri,
     options: {
@@ -91,7 +248,9 @@ export class SopsFsProvider implements vscode.FileSystemProvider {
     const [fs, fsUri] = await this.getOrOpenFs(uri);
     try {
       const res = await fs.stat(fsUri);
-      return res;
+      return parseUri(uri).ref
+        ? { ...res, permissions: vscode.FilePermission.Readonly }
+        : res;
     } catch (e) {
       console.error(`stat ${uri} ${fsUri}: ` + e);
       throw e;
@@ -110,7 +269,7 @@ export class SopsFsProvider implements vscode.FileSystemProvider {
   }
 
   async createDirectory(uri: vscode.Uri): Promise<void> {
-    const [fs, fsUri] = await this.getOrOpenFs(uri);
+    const [fs, fsUri] = await this.getOrOpenWritableFs(uri);
     try {
       return await fs.createDirectory(fsUri);
     } catch (e) {
@@ -134,7 +293,7 @@ export class SopsFsProvider implements vscode.FileSystemProvider {
     content: Uint8Array,
     options: { readonly create: boolean; readonly overwrite: boolean }
   ): Promise<void> {
-    const [fs, fsUri] = await this.getOrOpenFs(uri);
+    const [fs, fsUri] = await this.getOrOpenWritableFs(uri);
     try {
       return await fs.writeFile(fsUri, content, options);
     } catch (e) {
@@ -147,7 +306,7 @@ export class SopsFsProvider implements vscode.FileSystemProvider {
     uri: vscode.Uri,
     options: { readonly recursive: boolean }
   ): Promise<void> {
-    const [fs, fsUri] = await this.getOrOpenFs(uri);
+    const [fs, fsUri] = await this.getOrOpenWritableFs(uri);
     try {
       return await fs.delete(fsUri, options);
     } catch (e) {
@@ -168,7 +327,7 @@ export class SopsFsProvider implements vscode.FileSystemProvider {
         `cannot rename ${oldUri} to ${newUri}, not the same sops file`
       );
     }
-    const [fs] = await this.getOrOpenFs(oldUri);
+    const [fs] = await this.getOrOpenWritableFs(oldUri);
     try {
       return await fs.rename(oldFsUri, newFsUri, options);
     } catch (e) {
@@ -177,13 +336,72 @@ export class SopsFsProvider implements vscode.FileSystemProvider {
     }
   }
 
-  static composeUri(sopsFile: vscode.Uri, path?: string): vscode.Uri {
+  /**
+   * Key path of `uri` in mounted SOPS file, leaves shown with virtual
+   * extensions resolve to their keys
+   */
+  async keyPath(uri: vscode.Uri): Promise<string[]> {
+    const [fs, fsUri] = await this.getOrOpenFs(uri);
+    return await fs.keyPath(fsUri);
+  }
+
+  /**
+   * Whether leaf at `uri` is encrypted by rules of its SOPS file, undefined
+   * if it's not a leaf or the file has no such rules
+   */
+  async encryption(uri: vscode.Uri): Promise<LeafEncryption | undefined> {
+    const [fs, fsUri] = await this.getOrOpenFs(uri);
+    return await fs.encryption(fsUri);
+  }
+
+  /**
+   * Decrypt encrypted `content` of `sopsFile` with its options, e.g. a
+   * previous version of it, failures are only reported if `showErrors`
+   */
+  async decryptContent(
+    sopsFile: vscode.Uri,
+    content: Uint8Array,
+    showErrors = true
+  ) {
+    const [fs] = await this.getOrOpenFs(SopsFsProvider.composeUri(sopsFile));
+    return await fs.decryptContent(content, showErrors);
+  }
+
+  /**
+   * URI of value at key `path` in mounted `sopsFile`
+   */
+  async leafUri(sopsFile: vscode.Uri, path: string[]): Promise<vscode.Uri> {
+    const [fs] = await this.getOrOpenFs(SopsFsProvider.composeUri(sopsFile));
+    const names = await fs.namesOfKey(path);
+    return SopsFsProvider.composeUri(sopsFile, "/" + names.join("/"));
+  }
+
+  /**
+   * Drop decrypted content of `sopsFile` after it was changed outside of
+   * mounted filesystems, e.g. re-encrypted by `sops` command
+   */
+  invalidate(sopsFile: vscode.Uri) {
+    this.decryptedCache.invalidate(sopsFile);
+  }
+
+  static parseUri = parseUri;
+
+  /**
+   * Compose URI of `path` in mounted `sopsFile`, which is read-only if it
+   * refers to the SOPS file at git revision `ref`
+   */
+  static composeUri(
+    sopsFile: vscode.Uri,
+    path?: string,
+    ref?: string | null
+  ): vscode.Uri {
     return vscode.Uri.from({
       scheme: "sops",
       path:
         "" +
         Buffer.from(sopsFile.toString()).toString("base64url") +
         (path || ""),
+      query: ref ? new URLSearchParams({ ref }).toString() : "",
     });
   }
 }
@@ -1,28 +1,74 @@
 import vscode, { Disposable } from "vscode";
 import { l10n } from "vscode";
 import type { JsonObject, JsonValue } from "type-fest";
-import { execa, ExecaError } from "execa";
+import type { ExecaError } from "execa";
 import { temporaryFileTask } from "tempy";
 import fs from "fs/promises";
 import objectPath from "object-path";
 import path from "path";
 import throttle from "lodash.throttle";
+import {
+  SopsFormat,
+  pathToFormat,
+  deleteKey,
+  isMultiDocument,
+  parseDecrypted,
+  parseEmbeddedDocument,
+  setKey,
+} from "./sops-format";
+import { WriteQueue } from "./write-queue";
+import { DecryptedCache, DecryptedFile } from "./decrypted-cache";
+import { execSops } from "./sops-cmd";
+import { CONTENT_FILE_ENV } from "./sops-builtin";
+import type { SopsBackendName } from "./config";
+import { LeafExtensionOptions, leafExtension } from "./leaf-extensions";
+import { decodeKeyName, encodeKeyName, pathToSopsSetPath } from "./key-path";
+import { diffTrees, findConflicts } from "./tree-merge";
+import { metadataFiles, parseSopsMetadata } from "./sops-metadata";
+import { isPathEncrypted, toggledKeyName } from "./sops-crypto";
+import {
+  LeafType,
+  contentToLeaf,
+  leafToContent,
+  parseTypeTag,
+} from "./leaf-values";
 
-const DELETED_MARKER =
-  "vscode-sops-fs__deleted__ba2bfdb5-b5c2-460c-a1cd-4e257b05ebee";
-
-enum SopsFormat {
-  json = ".json",
-  yaml = ".yaml",
-  ini = ".ini",
-  env = ".env",
-  binary = ".sops",
-}
+// read-only folder showing SOPS metadata
+export const METADATA_DIRNAME = "__sops__";
+export const DATA_FILENAME_PREFIX = "__sopsfs__";
 
 interface SopsFsOpenOptions {
   sopsUri: vscode.Uri;
   sopsCmd: string;
   env: Record<string, string>;
+  backend?: SopsBackendName;
+  inferValueTypes: boolean;
+  cache: DecryptedCache;
+  // format detected from content, inferred from `sopsUri` if not given
+  format?: SopsFormat;
+  // whether string value at key path is expanded as embedded document
+  isExpanded?: (path: string[]) => boolean;
+  // virtual extensions shown after leaf names
+  leafExtensions?: LeafExtensionOptions;
+  // called with encrypted content of SOPS file before it's overwritten
+  onWillOverwrite?: (encrypted: Uint8Array) => Promise<void>;
+}
+
+export interface LeafEncryption {
+  // whether the value is encrypted by rules of SOPS metadata
+  encrypted: boolean;
+  // filename to rename the leaf to for the opposite, null if there's none
+  toggledName: string | null;
+}
+
+interface EmbeddedDocument {
+  format: SopsFormat.json | SopsFormat.yaml;
+  // key path of the string value holding the document
+  keyPath: string[];
+  // path inside the document
+  subPath: string[];
+  content: string;
+  tree: JsonObject;
 }
 
 function uriToObjPath(uri: vscode.Uri) {
@@ -36,60 +82,6 @@ function treeValueToType(value: any): vscode.FileType {
   return vscode.FileType.File;
 }
 
-function pathToFormat(p: string): SopsFormat {
-  const ext = path.extname(p);
-  switch (ext) {
-    case ".json":
-      return SopsFormat.json;
-    case ".yaml":
-    case ".yml":
-      return SopsFormat.yaml;
-    case ".ini":
-      return SopsFormat.ini;
-    case ".env":
-      return SopsFormat.env;
-  }
-  return SopsFormat.binary;
-}
-
-function pathToSopsSetPath(path: string[], object: object): string {
-  const res = [];
-  for (let i = 0; i < path.length; ++i) {
-    const key = path[i];
-    const parent = objectPath.get(object, path.slice(0, i));
-    if (Array.isArray(parent)) {
-      const idx = Number.parseInt(key);
-      if (!(idx >= 0 && idx.toString() === key)) {
-        throw new Error(l10n.t(`"{0}" is not a valid array index`, key));
-      }
-      res.push(`[${idx}]`);
-    } else {
-      res.push(`["${key}"]`);
-    }
-  }
-  return res.join("");
-}
-
-function deleteMarker(format: SopsFormat, content: string): string {
-  if (format === SopsFormat.binary) {
-    throw new Error(`deleteMarker: unhandled format ${format}`);
-  }
-  if (format === SopsFormat.json) {
-    const regex = new RegExp(
-      `(,)?([\\n\\s]*"[^"]+"[\\n\\s]*:)?[\\n\\s]*"${DELETED_MARKER}"[\\n\\s]*(,)?`,
-      "g"
-    );
-    return content.replace(regex, (_match, c1, _key, c2) => {
-      if (c1 && c2) {
-        return ",";
-      }
-      return "";
-    });
-  }
-  const regex = new RegExp(`.*${DELETED_MARKER}.*\\n?`, "g");
-  return content.replace(regex, "");
-}
-
 interface TreeNodeFile {
   type: vscode.FileType.File;
   stat: vscode.FileStat;
@@ -104,6 +96,17 @@ interface TreeNodeDir {
 
 type TreeNode = TreeNodeFile | TreeNodeDir;
 
+type SopsMutation =
+  | {
+      type: "set";
+      path: string[];
+      value: JsonValue;
+      change: vscode.FileChangeType;
+    }
+  | { type: "delete"; path: string[] }
+  // write data file
+  | { type: "write"; content: Uint8Array };
+
 /**
  * FS for a specific SOPS file
  */
@@ -114,26 +117,61 @@ export class SopsFs implements vscode.FileSystemProvider, vscode.Disposable {
   onDidChangeFile = this.onDidChangeEmitter.event;
 
   private sopsCmd: string;
+  private backend?: SopsBackendName;
   private sopsUri: vscode.Uri;
   private env: Record<string, string>;
+  private inferValueTypes: boolean;
+  private cache: DecryptedCache;
   private sopsFormat: SopsFormat;
   private dataFilename: string;
+  private isExpanded: (path: string[]) => boolean;
+  private leafExtensions: LeafExtensionOptions;
+  private onWillOverwrite?: (encrypted: Uint8Array) => Promise<void>;
 
   // watcher for sopsUri
   private watcher: vscode.FileSystemWatcher | null = null;
   private subscriptions: Disposable[] = [];
   private fileChanges: vscode.FileChangeEvent[] = [];
-  // TODO: lock tree
-  private cachedTree: [vscode.FileStat, Buffer, JsonObject | null] | null =
-    null;
+  private cachedTree: DecryptedFile | null = null;
+  private writeQueue = new WriteQueue<SopsMutation[]>((transactions) =>
+    this.applyTransactions(transactions)
+  );
+
+  /**
+   * Name of the data file holding direct decryption output of `sopsUri`
+   */
+  static dataFilenameOf(
+    sopsUri: vscode.Uri,
+    format = pathToFormat(sopsUri.path)
+  ): string {
+    const ext = path.extname(path.basename(sopsUri.path, ".sops"));
+    if (pathToFormat(ext) === format) {
+      return DATA_FILENAME_PREFIX + ext;
+    }
+    return DATA_FILENAME_PREFIX + (format === SopsFormat.binary ? "" : format);
+  }
 
   constructor(opts: SopsFsOpenOptions) {
     this.sopsCmd = opts.sopsCmd;
+    this.backend = opts.backend;
     this.sopsUri = opts.sopsUri;
     this.env = opts.env;
-    this.sopsFormat = pathToFormat(this.sopsUri.path);
-    this.dataFilename =
-      "__sopsfs__" + path.extname(path.basename(this.sopsUri.path, ".sops"));
+    this.inferValueTypes = opts.inferValueTypes;
+    this.cache = opts.cache;
+    this.sopsFormat = opts.format ?? pathToFormat(this.sopsUri.path);
+    this.dataFilename = SopsFs.dataFilenameOf(this.sopsUri, this.sopsFormat);
+    this.isExpanded = opts.isExpanded ?? (() => false);
+    this.leafExtensions = opts.leafExtensions ?? { rules: {}, detect: false };
+    this.onWillOverwrite = opts.onWillOverwrite;
+
+    this.subscriptions.push(
+      this.cache.onDidInvalidate((uri) => {
+        if (uri.toString() === this.sopsUri.toString()) {
+          this.cachedTree = null;
+          this.emitChanged();
+        }
+      })
+    );
   }
 
   dispose() {
@@ -148,6 +186,18 @@ export class SopsFs implements vscode.FileSystemProvider, vscode.Disposable {
     );
   }
 
+  private isMetadata(path: string[]): boolean {
+    return path.length > 0 && path[0] === METADATA_DIRNAME;
+  }
+
+  private assertNotMetadata(...paths: string[][]) {
+    if (paths.some((path) => this.isMetadata(path))) {
+      throw vscode.FileSystemError.NoPermissions(
+        l10n.t("SOPS metadata is read-only")
+      );
+    }
+  }
+
   private async execSops(
     args: readonly string[],
     toString: true,
@@ -163,56 +213,289 @@ export class SopsFs implements vscode.FileSystemProvider, vscode.Disposable {
     toString: boolean,
     extraEnv?: Record<string, string>
   ): Promise<string | Buffer> {
-    const { stdout } = await execa(this.sopsCmd, args, {
-      stripFinalNewline: false,
-      env: {
-        ...this.env,
-        ...extraEnv,
+    const opts = {
+      sopsCmd: this.sopsCmd,
+      env: this.env,
+      backend: this.backend,
+    };
+    return toString
+      ? await execSops(opts, args, true, extraEnv)
+      : await execSops(opts, args, false, extraEnv);
+  }
+
+  /**
+   * Whether `path` is inside an expanded embedded document
+   */
+  private isInEmbedded(path: string[]): boolean {
+    return path
+      .slice(0, -1)
+      .some((_, idx) => this.isExpanded(path.slice(0, idx + 1)));
+  }
+
+  /**
+   * Expanded embedded document `path` is at or inside of, null if none
+   */
+  private findEmbedded(
+    tree: JsonObject,
+    path: string[]
+  ): EmbeddedDocument | null {
+    for (let i = 1; i <= path.length; i++) {
+      const keyPath = path.slice(0, i);
+      const value = objectPath.get(tree, keyPath);
+      if (typeof value !== "string") {
+        if (typeof value !== "object" || !value) {
+          return null;
+        }
+        continue;
+      } else if (!this.isExpanded(keyPath)) {
+        return null;
+      }
+      const doc = parseEmbeddedDocument(value);
+      return doc && { ...doc, keyPath, subPath: path.slice(i), content: value };
+    }
+    return null;
+  }
+
+  /**
+   * Value at `path`, expanded embedded documents are parsed
+   */
+  private getValue(tree: JsonObject, path: string[]): JsonValue | undefined {
+    const embedded = this.findEmbedded(tree, path);
+    return embedded
+      ? objectPath.get(embedded.tree, embedded.subPath)
+      : objectPath.get(tree, path);
+  }
+
+  /**
+   * Type of value at `path`, string holding an expanded embedded document
+   * is a directory
+   */
+  private valueType(path: string[], value: JsonValue): vscode.FileType {
+    if (
+      typeof value === "string" &&
+      this.isExpanded(path) &&
+      parseEmbeddedDocument(value)
+    ) {
+      return vscode.FileType.Directory;
+    }
+    return treeValueToType(value);
+  }
+
+  /**
+   * Whether filename `name` at root is taken by the data file or metadata
+   */
+  private isReservedName(name: string): boolean {
+    return name === this.dataFilename || name === METADATA_DIRNAME;
+  }
+
+  /**
+   * Filename of `key` under `parent` followed by extension `ext`
+   */
+  private nameOf(parent: string[], key: string, ext = ""): string {
+    return (
+      encodeKeyName(
+        key,
+        parent.length ? undefined : (name) => this.isReservedName(name + ext)
+      ) + ext
+    );
+  }
+
+  /**
+   * Directory entry of `key` holding `value` under `parent` whose keys are
+   * `siblings`, leaves are named with their virtual extension
+   */
+  private entryOf(
+    parent: string[],
+    key: string,
+    value: JsonValue,
+    inEmbedded: boolean,
+    siblings: object
+  ): [string, vscode.FileType] {
+    const type = inEmbedded
+      ? treeValueToType(value)
+      : this.valueType([...parent, key], value);
+    if (type !== vscode.FileType.File) {
+      return [this.nameOf(parent, key), type];
+    }
+    const ext = leafExtension(key, value, this.leafExtensions, siblings);
+    return [this.nameOf(parent, key, ext), type];
+  }
+
+  /**
+   * Filenames of key `path` whose value is `value`
+   */
+  private namesOf(
+    tree: JsonObject | null,
+    path: string[],
+    value: JsonValue | undefined
+  ): string[] {
+    const parent = path.slice(0, -1);
+    const names = parent.map((key, idx) =>
+      this.nameOf(parent.slice(0, idx), key)
+    );
+    if (!path.length) {
+      return names;
+    } else if (value === undefined || !tree) {
+      return [...names, this.nameOf(parent, path[path.length - 1])];
+    }
+    const inEmbedded = !!this.findEmbedded(tree, parent);
+    const [name] = this.entryOf(
+      parent,
+      path[path.length - 1],
+      value,
+      inEmbedded,
+      (this.getValue(tree, parent) as object | undefined) ?? {}
+    );
+    return [...names, name];
+  }
+
+  /**
+   * Key path of filenames `names`, a leaf named with its virtual extension
+   * resolves to its key unless a key of that very name exists. Names of data
+   * file and metadata are returned as is.
+   */
+  private async keyPathOf(names: string[]): Promise<string[]> {
+    if (!names.length || this.isDataFile(names) || this.isMetadata(names)) {
+      return names;
+    }
+    const path = names.map(decodeKeyName);
+    const { rules, detect } = this.leafExtensions;
+    if (!detect && !Object.keys(rules).length) {
+      return path;
+    }
+    const { tree } = await this.getTree();
+    const parentPath = path.slice(0, -1);
+    const parent = tree && this.getValue(tree, parentPath);
+    if (
+      typeof parent !== "object" ||
+      !parent ||
+      path[path.length - 1] in parent
+    ) {
+      return path;
+    }
+    const inEmbedded = !!this.findEmbedded(tree, parentPath);
+    const name = names[names.length - 1];
+    const key = Object.keys(parent).find(
+      (key) =>
+        this.entryOf(
+          parentPath,
+          key,
+          (parent as any)[key],
+          inEmbedded,
+          parent
+        )[0] === name
+    );
+    return key === undefined ? path : [...parentPath, key];
+  }
+
+  /**
+   * Path sops matches encryption rules against for key `path`, i.e. without
+   * list indexes. Keys inside embedded documents are part of their string.
+   */
+  private sopsPathOf(tree: JsonObject, path: string[]): string[] {
+    const keyPath = this.findEmbedded(tree, path)?.keyPath ?? path;
+    return keyPath.filter(
+      (_, idx) => !Array.isArray(objectPath.get(tree, keyPath.slice(0, idx)))
+    );
+  }
+
+  /**
+   * Whether value at key `path` is encrypted, undefined if the SOPS file has
+   * no tree or metadata
+   */
+  private isEncryptedPath(
+    { tree, metadata }: DecryptedFile,
+    path: string[]
+  ): boolean | undefined {
+    if (!tree || !metadata) {
+      return undefined;
+    }
+    return isPathEncrypted(metadata, this.sopsPathOf(tree, path));
+  }
+
+  /**
+   * Ask user to confirm storing value of `keyPath` in plaintext, throws if
+   * it's not confirmed
+   */
+  private async confirmPlaintext(keyPath: string[]) {
+    const store = l10n.t("Store in Plaintext");
+    const choice = await vscode.window.showWarningMessage(
+      l10n.t("{0} will be stored in plaintext", keyPath.join("/")),
+      {
+        modal: true,
+        detail: l10n.t(
+          "The key is not encrypted by encryption rules of SOPS file {0}.",
+          path.basename(this.sopsUri.path)
+        ),
       },
-      encoding: toString ? undefined : null,
-    });
-    return stdout;
+      store
+    );
+    if (choice !== store) {
+      throw vscode.FileSystemError.NoPermissions(
+        l10n.t("Storing {0} in plaintext was cancelled", keyPath.join("/"))
+      );
+    }
   }
 
-  private async getTree(): Promise<
-    [vscode.FileStat, Buffer, JsonObject | null]
-  > {
+  private async getTree(): Promise<DecryptedFile> {
     if (this.cachedTree) {
       return this.cachedTree;
     }
-    const [stat, content] = await Promise.all([
-      vscode.workspace.fs.stat(this.sopsUri),
-      vscode.workspace.fs.readFile(this.sopsUri),
-    ]);
+    const generation = this.cache.generation;
+    const decrypted = await this.cache.get(this.sopsUri, (stat) =>
+      this.decrypt(stat)
+    );
+    // not kept if locked meanwhile
+    if (generation === this.cache.generation) {
+      this.cachedTree = decrypted;
+    }
+    return decrypted;
+  }
+
+  /**
+   * Decrypt SOPS file with a single sops run, the tree is parsed from
+   * decryption output directly
+   */
+  private async decrypt(stat: vscode.FileStat): Promise<DecryptedFile> {
+    const content = await vscode.workspace.fs.readFile(this.sopsUri);
+    const { raw, tree } = await this.decryptContent(content);
+    const metadata = parseSopsMetadata(
+      this.sopsFormat,
+      Buffer.from(content).toString()
+    );
+    return { stat, encrypted: content, raw, tree, metadata };
+  }
 
-    const [rawOut, jsonOut] = await temporaryFileTask(
+  /**
+   * Decrypt encrypted `content` of this SOPS file, e.g. a previous version.
+   * Failures are left to the caller to report unless `showErrors`.
+   */
+  async decryptContent(
+    content: Uint8Array,
+    showErrors = true
+  ): Promise<{ raw: Buffer; tree: JsonObject | null }> {
+    const raw = await temporaryFileTask(
       async (tempFile) => {
         await fs.writeFile(tempFile, content);
-        const rawOut = await this.sopsCmdRead(tempFile);
-        try {
-          let jsonOut = null;
-          if (this.sopsFormat !== SopsFormat.binary) {
-            const stdout = await this.execSops(
-              ["--output-type", "json", "--decrypt", tempFile],
-              true
-            );
-            jsonOut = JSON.parse(stdout) as JsonObject;
-          }
-          return [rawOut, jsonOut];
-        } catch (e) {
-          vscode.window.showErrorMessage(
-            l10n.t("Failed to decrypt SOPS file to JSON")
-          );
-          console.error(e);
-          throw e;
-        }
+        return await this.sopsCmdRead(tempFile, showErrors);
       },
       {
         extension: this.sopsFormat,
       }
     );
-    this.cachedTree = [stat, rawOut, jsonOut];
-    return this.cachedTree;
+    let tree: JsonObject | null;
+    try {
+      tree = parseDecrypted(this.sopsFormat, raw.toString());
+    } catch (e) {
+      if (showErrors) {
+        vscode.window.showErrorMessage(
+          l10n.t("Failed to parse decrypted SOPS file")
+        );
+      }
+      console.error(e);
+      throw e;
+    }
+    return { raw, tree };
   }
 
   private emitChanged = throttle(
@@ -236,39 +519,71 @@ export class SopsFs implements vscode.FileSystemProvider, vscode.Disposable {
 
   private invalidateTreeCache() {
     this.cachedTree = null;
+    this.cache.invalidate(this.sopsUri);
     this.emitChanged();
   }
 
-  private async getTreeNode(path: string[]): Promise<TreeNode> {
-    const [sopsStat, raw, tree] = await this.getTree();
+  private async getTreeNodeOrNull(names: string[]): Promise<TreeNode | null> {
+    try {
+      return await this.getTreeNode(names);
+    } catch (_) {
+      return null;
+    }
+  }
+
+  /**
+   * Node at filenames `names`
+   */
+  private async getTreeNode(names: string[]): Promise<TreeNode> {
+    const { stat: sopsStat, raw, tree, metadata } = await this.getTree();
     let type: vscode.FileType | null = null;
     let value: Uint8Array | null = null;
     let entries: [string, vscode.FileType][] = [];
-    if (this.isDataFile(path)) {
+    if (this.isDataFile(names)) {
       type = vscode.FileType.File;
       value = raw;
+    } else if (this.isMetadata(names) && metadata) {
+      const files = metadataFiles(metadata);
+      if (names.length === 1) {
+        type = vscode.FileType.Directory;
+        entries = Object.keys(files).map((name) => [
+          name,
+          vscode.FileType.File,
+        ]);
+      } else if (names.length === 2 && names[1] in files) {
+        type = vscode.FileType.File;
+        value = Buffer.from(files[names[1]]);
+      } else {
+        throw vscode.FileSystemError.FileNotFound();
+      }
     } else if (tree) {
-      const val = objectPath.get(tree, path);
+      const path = await this.keyPathOf(names);
+      const val = this.getValue(tree, path);
       if (val === undefined) {
         throw vscode.FileSystemError.FileNotFound();
       }
       type = treeValueToType(val);
+      // nested documents are not expanded inside embedded ones
+      const inEmbedded = !!this.findEmbedded(tree, path);
 
       if (type === vscode.FileType.Directory) {
-        entries = Object.entries(val).map(([key, val]) => {
-          return [key, treeValueToType(val)];
-        });
+        entries = Object.entries(val as object).map(([key, child]) =>
+          this.entryOf(path, key, child, inEmbedded, val as object)
+        );
       } else {
-        value = Buffer.from(val.toString());
+        value = leafToContent(val);
       }
     }
 
-    if (path.length === 0 && this.dataFilename) {
+    if (names.length === 0 && this.dataFilename) {
       if (type && type !== vscode.FileType.Directory) {
         throw new Error("unreachable");
       }
       type = vscode.FileType.Directory;
       entries.unshift([this.dataFilename, vscode.FileType.File]);
+      if (metadata) {
+        entries.splice(1, 0, [METADATA_DIRNAME, vscode.FileType.Directory]);
+      }
     }
 
     let node: TreeNode;
@@ -305,17 +620,17 @@ export class SopsFs implements vscode.FileSystemProvider, vscode.Disposable {
       this.watcher = watcher;
       this.subscriptions.push(
         watcher.onDidCreate(() => {
-          this.invalidateTreeCache();
+          this.cache.validate(this.sopsUri);
         })
       );
       this.subscriptions.push(
         watcher.onDidChange(() => {
-          this.invalidateTreeCache();
+          this.cache.validate(this.sopsUri);
         })
       );
       this.subscriptions.push(
         watcher.onDidDelete(() => {
-          this.invalidateTreeCache();
+          this.cache.validate(this.sopsUri);
         })
       );
     }
@@ -325,7 +640,7 @@ export class SopsFs implements vscode.FileSystemProvider, vscode.Disposable {
 
   private async sopsCmdSet(
     sopsFile: string,
-    path: string[],
+    setPath: string,
     value: JsonValue
   ): Promise<void> {
     if (this.sopsFormat === SopsFormat.binary) {
@@ -333,9 +648,6 @@ export class SopsFs implements vscode.FileSystemProvider, vscode.Disposable {
         l10n.t("Set value on binary file is invalid")
       );
     }
-    const [, , tree] = await this.getTree();
-
-    const setPath = pathToSopsSetPath(path, tree || {});
     const jsonValue = JSON.stringify(value);
     try {
       await this.execSops(["--set", `${setPath} ${jsonValue}`, sopsFile], true);
@@ -350,11 +662,24 @@ export class SopsFs implements vscode.FileSystemProvider, vscode.Disposable {
     }
   }
 
-  private async sopsCmdRead(sopsFile: string): Promise<Buffer> {
+  private async sopsCmdRead(
+    sopsFile: string,
+    showErrors = true
+  ): Promise<Buffer> {
     try {
       return await this.execSops(["--decrypt", sopsFile], false);
     } catch (e) {
-      vscode.window.showErrorMessage(l10n.t("Failed to decrypt SOPS file"));
+      if (!showErrors) {
+        throw e;
+      }
+      const pickProfile = l10n.t("Pick Profile");
+      vscode.window
+        .showErrorMessage(l10n.t("Failed to decrypt SOPS file"), pickProfile)
+        .then((res) => {
+          if (res === pickProfile) {
+            vscode.commands.executeCommand("sopsfs.pickProfile", this.sopsUri);
+          }
+        });
       console.error(e);
       throw e;
     }
@@ -373,6 +698,7 @@ export class SopsFs implements vscode.FileSystemProvider, vscode.Disposable {
       try {
         await this.execSops([sopsFile], true, {
           ["EDITOR"]: copyCmd,
+          [CONTENT_FILE_ENV]: contentTemp,
         });
       } catch (err: any) {
         const e = err as ExecaError;
@@ -386,14 +712,12 @@ export class SopsFs implements vscode.FileSystemProvider, vscode.Disposable {
   }
 
   private async withSopsFile<T>(
+    encrypted: Uint8Array,
     f: (sopsFile: string) => Promise<T>
   ): Promise<T> {
-    const sopsEncryptedContent = await vscode.workspace.fs.readFile(
-      this.sopsUri
-    );
     return await temporaryFileTask(
       async (sopsTemp) => {
-        await fs.writeFile(sopsTemp, sopsEncryptedContent);
+        await fs.writeFile(sopsTemp, encrypted);
         return await f(sopsTemp);
       },
       {
@@ -412,12 +736,235 @@ export class SopsFs implements vscode.FileSystemProvider, vscode.Disposable {
     });
   }
 
-  private async applySopsChange(sopsFile: string): Promise<void> {
-    await vscode.workspace.fs.copy(vscode.Uri.file(sopsFile), this.sopsUri, {
-      overwrite: true,
+  private async applySopsChange(encrypted: Uint8Array): Promise<void> {
+    if (this.onWillOverwrite) {
+      try {
+        await this.onWillOverwrite(
+          await vscode.workspace.fs.readFile(this.sopsUri)
+        );
+      } catch (e) {
+        console.error("failed to keep previous version of sops file: " + e);
+      }
+    }
+    await vscode.workspace.fs.writeFile(this.sopsUri, encrypted);
+
+    this.invalidateTreeCache();
+  }
+
+  /**
+   * Whether SOPS file was changed since `base` was decrypted
+   */
+  private async isChangedSince(base: DecryptedFile): Promise<boolean> {
+    const stat = await vscode.workspace.fs.stat(this.sopsUri);
+    if (stat.mtime === base.stat.mtime && stat.size === base.stat.size) {
+      return false;
+    }
+    const current = await vscode.workspace.fs.readFile(this.sopsUri);
+    return !Buffer.from(current).equals(base.encrypted);
+  }
+
+  /**
+   * Re-encrypt decrypted `content` changed by `mutations` on top of
+   * `encrypted`, returns new encrypted content
+   */
+  private async reencrypt(
+    encrypted: Uint8Array,
+    mutations: SopsMutation[],
+    content: Buffer
+  ): Promise<Buffer> {
+    return await this.withSopsFile(encrypted, async (sopsTemp) => {
+      const [first] = mutations;
+      const setPath =
+        mutations.length === 1 &&
+        first.type === "set" &&
+        !this.isInEmbedded(first.path) &&
+        // sops only sets value in the first document
+        !isMultiDocument(this.sopsFormat, content.toString())
+          ? pathToSopsSetPath(first.path, (await this.getTree()).tree || {})
+          : null;
+      if (setPath !== null && first.type === "set") {
+        // leave single value change to sops so the rest of file is untouched
+        await this.sopsCmdSet(sopsTemp, setPath, first.value);
+      } else {
+        await this.sopsCmdWrite(sopsTemp, content);
+      }
+      return await fs.readFile(sopsTemp);
     });
+  }
+
+  /**
+   * Ask user how to resolve changes made to SOPS file after `base` was
+   * decrypted, returns encrypted content to write or throws if our changes
+   * are discarded
+   */
+  private async resolveConflict(
+    base: DecryptedFile,
+    content: Buffer,
+    encrypted: Buffer
+  ): Promise<Buffer> {
+    const merge = l10n.t("Merge");
+    const overwrite = l10n.t("Overwrite");
+    const discard = l10n.t("Discard");
+    const basename = path.basename(this.sopsUri.path);
+    const choice = await vscode.window.showWarningMessage(
+      l10n.t("SOPS file {0} was changed since it was decrypted", basename),
+      {
+        modal: true,
+        detail: l10n.t(
+          "Merge your changes into the current file, overwrite the current file with your version, or discard your changes."
+        ),
+      },
+      ...(base.tree ? [merge] : []),
+      overwrite,
+      discard
+    );
+    if (choice === overwrite) {
+      return encrypted;
+    }
 
     this.invalidateTreeCache();
+    if (choice !== merge) {
+      throw vscode.FileSystemError.Unavailable(
+        l10n.t(
+          "SOPS file {0} was changed since it was decrypted, changes are discarded",
+          basename
+        )
+      );
+    }
+
+    const theirs = await this.getTree();
+    const changes = diffTrees(
+      base.tree,
+      parseDecrypted(this.sopsFormat, content.toString())
+    );
+    const conflicts = findConflicts(base.tree, theirs.tree, changes);
+    if (conflicts.length > 0) {
+      throw vscode.FileSystemError.Unavailable(
+        l10n.t(
+          "Failed to merge changes into SOPS file {0}, conflicting keys: {1}",
+          basename,
+          conflicts.map((i) => i.join("/")).join(", ")
+        )
+      );
+    }
+    const merged = changes.reduce(
+      (acc, { path, value }) =>
+        this.applyMutation(
+          acc,
+          value === undefined
+            ? { type: "delete", path }
+            : {
+                type: "set",
+                path,
+                value,
+                change: vscode.FileChangeType.Changed,
+              }
+        ),
+      theirs.raw
+    );
+    return await this.reencrypt(theirs.encrypted, [], merged);
+  }
+
+  /**
+   * Apply mutation inside expanded embedded document by setting the
+   * re-serialised document on its key, null if it's not inside one
+   */
+  private applyEmbeddedMutation(
+    content: Buffer,
+    mutation: SopsMutation
+  ): Buffer | null {
+    if (mutation.type === "write" || !this.isInEmbedded(mutation.path)) {
+      return null;
+    }
+    const tree = parseDecrypted(this.sopsFormat, content.toString());
+    const embedded = tree && this.findEmbedded(tree, mutation.path);
+    if (!embedded || !embedded.subPath.length) {
+      return null;
+    }
+    const value =
+      mutation.type === "set"
+        ? setKey(
+            embedded.format,
+            embedded.content,
+            embedded.subPath,
+            mutation.value
+          )
+        : deleteKey(embedded.format, embedded.content, embedded.subPath);
+    return Buffer.from(
+      setKey(this.sopsFormat, content.toString(), embedded.keyPath, value)
+    );
+  }
+
+  private applyMutation(content: Buffer, mutation: SopsMutation): Buffer {
+    const embedded = this.applyEmbeddedMutation(content, mutation);
+    if (embedded) {
+      return embedded;
+    }
+    switch (mutation.type) {
+      case "write":
+        return Buffer.from(mutation.content);
+      case "set":
+        return Buffer.from(
+          setKey(
+            this.sopsFormat,
+            content.toString(),
+            mutation.path,
+            mutation.value
+          )
+        );
+      case "delete":
+        return Buffer.from(
+          deleteKey(this.sopsFormat, content.toString(), mutation.path)
+        );
+    }
+  }
+
+  /**
+   * Apply queued transactions to decrypted content and encrypt the result
+   * once, a transaction that fails is skipped without affecting others.
+   */
+  private async applyTransactions(
+    transactions: SopsMutation[][]
+  ): Promise<(unknown | undefined)[]> {
+    const base = await this.getTree();
+    let content = base.raw;
+    const errors = transactions.map((mutations) => {
+      try {
+        content = mutations.reduce(
+          (acc, m) => this.applyMutation(acc, m),
+          content
+        );
+      } catch (e) {
+        return e;
+      }
+    });
+    const applied = transactions
+      .filter((_, idx) => errors[idx] === undefined)
+      .flat();
+    if (applied.length === 0) {
+      return errors;
+    }
+
+    let encrypted = await this.reencrypt(base.encrypted, applied, content);
+    if (await this.isChangedSince(base)) {
+      encrypted = await this.resolveConflict(base, content, encrypted);
+    }
+    for (const m of applied) {
+      if (m.type === "set") {
+        this.addChangeEvent(this.namesOf(base.tree, m.path, m.value), m.change);
+      } else if (m.type === "delete") {
+        this.addChangeEvent(
+          this.namesOf(
+            base.tree,
+            m.path,
+            base.tree ? this.getValue(base.tree, m.path) : undefined
+          ),
+          vscode.FileChangeType.Deleted
+        );
+      }
+    }
+    await this.applySopsChange(encrypted);
+    return errors;
   }
 
   watch(
@@ -430,8 +977,72 @@ export class SopsFs implements vscode.FileSystemProvider, vscode.Disposable {
     return new vscode.Disposable(() => {});
   }
 
+  /**
+   * Key path of `uri`, with virtual extension of leaf stripped
+   */
+  async keyPath(uri: vscode.Uri): Promise<string[]> {
+    return await this.keyPathOf(uriToObjPath(uri));
+  }
+
+  /**
+   * Encryption of leaf at `uri`, undefined if it's not a leaf of the tree or
+   * the SOPS file has no encryption rules
+   */
+  async encryption(uri: vscode.Uri): Promise<LeafEncryption | undefined> {
+    const names = uriToObjPath(uri);
+    if (!names.length || this.isDataFile(names) || this.isMetadata(names)) {
+      return undefined;
+    }
+    const file = await this.getTree();
+    const path = await this.keyPathOf(names);
+    const value = file.tree && this.getValue(file.tree, path);
+    const encrypted = this.isEncryptedPath(file, path);
+    if (
+      !file.tree ||
+      !file.metadata ||
+      value === undefined ||
+      encrypted === undefined ||
+      this.valueType(path, value) !== vscode.FileType.File
+    ) {
+      return undefined;
+    }
+    const sopsPath = this.sopsPathOf(file.tree, path);
+    const key = path[path.length - 1];
+    // only the leaf itself could be renamed
+    const toggled =
+      sopsPath[sopsPath.length - 1] === key && sopsPath.length === path.length
+        ? toggledKeyName(file.metadata, sopsPath)
+        : null;
+    // keep virtual extension so the renamed key stays without it
+    const ext = decodeKeyName(names[names.length - 1]).slice(key.length);
+    return {
+      encrypted,
+      toggledName:
+        toggled === null ? null : this.nameOf(path.slice(0, -1), toggled) + ext,
+    };
+  }
+
+  /**
+   * Filenames of value at key `path`, i.e. escaped and with virtual extension
+   */
+  async namesOfKey(path: string[]): Promise<string[]> {
+    const { tree } = await this.getTree();
+    return this.namesOf(
+      tree,
+      path,
+      tree ? this.getValue(tree, path) : undefined
+    );
+  }
+
   async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
-    const node = await this.getTreeNode(uriToObjPath(uri));
+    const names = uriToObjPath(uri);
+    if (names.length === 0 && !this.cachedTree) {
+      // root is always a directory, so restored mounts are only decrypted
+      // once they are browsed
+      const { ctime, mtime } = await vscode.workspace.fs.stat(this.sopsUri);
+      return { type: vscode.FileType.Directory, ctime, mtime, size: 0 };
+    }
+    const node = await this.getTreeNode(names);
     return node.stat;
   }
 
@@ -444,11 +1055,12 @@ export class SopsFs implements vscode.FileSystemProvider, vscode.Disposable {
   }
 
   async createDirectory(uri: vscode.Uri): Promise<void> {
-    const path = uriToObjPath(uri);
-    await this.withSopsFile(async (sopsTemp) => {
-      await this.sopsCmdSet(sopsTemp, path, {});
-      await this.applySopsChange(sopsTemp);
-    });
+    const names = uriToObjPath(uri);
+    this.assertNotMetadata(names);
+    const path = await this.keyPathOf(names);
+    await this.writeQueue.enqueue([
+      { type: "set", path, value: {}, change: vscode.FileChangeType.Created },
+    ]);
   }
 
   async readFile(uri: vscode.Uri): Promise<Uint8Array> {
@@ -464,16 +1076,26 @@ export class SopsFs implements vscode.FileSystemProvider, vscode.Disposable {
     content: Uint8Array,
     options: { readonly create: boolean; readonly overwrite: boolean }
   ): Promise<void> {
-    const path = uriToObjPath(uri);
+    let names = uriToObjPath(uri);
+    this.assertNotMetadata(names);
     let parent: TreeNode | null = null;
     let node: TreeNode | null = null;
     try {
-      parent = await this.getTreeNode(path.slice(0, -1));
+      parent = await this.getTreeNode(names.slice(0, -1));
     } catch (_) {}
     if (parent) {
-      try {
-        node = await this.getTreeNode(path);
-      } catch (_) {}
+      node = await this.getTreeNodeOrNull(names);
+    }
+    // a new leaf named like `replicas[number]` is created as `replicas` with
+    // the tagged type
+    let type: LeafType | undefined;
+    if (parent && !node) {
+      const tagged = parseTypeTag(names[names.length - 1]);
+      if (tagged.type) {
+        type = tagged.type;
+        names = [...names.slice(0, -1), tagged.name];
+        node = await this.getTreeNodeOrNull(names);
+      }
     }
 
     if (!node && !options.create) {
@@ -484,44 +1106,48 @@ export class SopsFs implements vscode.FileSystemProvider, vscode.Disposable {
       throw vscode.FileSystemError.FileExists();
     }
 
-    await this.withSopsFile(async (sopsTemp) => {
-      if (this.isDataFile(path)) {
-        await this.sopsCmdWrite(sopsTemp, content);
-      } else {
-        await this.sopsCmdSet(sopsTemp, path, content.toString());
-      }
-      this.addChangeEvent(
+    if (this.isDataFile(names)) {
+      await this.writeQueue.enqueue([{ type: "write", content }]);
+      return;
+    }
+    const file = await this.getTree();
+    const path = await this.keyPathOf(names);
+    if (!node && this.isEncryptedPath(file, path) === false) {
+      await this.confirmPlaintext(path);
+    }
+    const previous = node ? this.getValue(file.tree || {}, path) : undefined;
+    await this.writeQueue.enqueue([
+      {
+        type: "set",
         path,
-        node ? vscode.FileChangeType.Changed : vscode.FileChangeType.Created
-      );
-      await this.applySopsChange(sopsTemp);
-    });
+        value: contentToLeaf(
+          content.toString(),
+          previous,
+          this.inferValueTypes,
+          type
+        ),
+        change: node
+          ? vscode.FileChangeType.Changed
+          : vscode.FileChangeType.Created,
+      },
+    ]);
   }
 
   async delete(
     uri: vscode.Uri,
     _options: { readonly recursive: boolean }
   ): Promise<void> {
-    const path = uriToObjPath(uri);
-    await this.getTreeNode(path);
-    if (this.isDataFile(path)) {
+    const names = uriToObjPath(uri);
+    this.assertNotMetadata(names);
+    await this.getTreeNode(names);
+    if (this.isDataFile(names)) {
       throw vscode.FileSystemError.NoPermissions(
         l10n.t("Deletion of data file is forbidden")
       );
     }
 
-    await this.withSopsFile(async (sopsTemp) => {
-      await this.sopsCmdSet(sopsTemp, path, DELETED_MARKER);
-      this.addChangeEvent(path, vscode.FileChangeType.Deleted);
-
-      let newContent = await this.sopsCmdRead(sopsTemp);
-      newContent = Buffer.from(
-        deleteMarker(this.sopsFormat, newContent.toString())
-      );
-      await this.sopsCmdWrite(sopsTemp, newContent);
-
-      await this.applySopsChange(sopsTemp);
-    });
+    const path = await this.keyPathOf(names);
+    await this.writeQueue.enqueue([{ type: "delete", path }]);
   }
 
   async rename(
@@ -529,21 +1155,25 @@ export class SopsFs implements vscode.FileSystemProvider, vscode.Disposable {
     newUri: vscode.Uri,
     options: { readonly overwrite: boolean }
   ): Promise<void> {
-    const oldPath = uriToObjPath(oldUri);
-    const newPath = uriToObjPath(newUri);
-    const [, , tree] = await this.getTree();
-    let newNode: TreeNode | null = null;
-
-    await this.getTreeNode(oldPath);
-    try {
-      newNode = await this.getTreeNode(newPath);
-    } catch (_) {}
+    const oldNames = uriToObjPath(oldUri);
+    let newNames = uriToObjPath(newUri);
+    this.assertNotMetadata(oldNames, newNames);
+    const file = await this.getTree();
+    const { tree } = file;
 
-    if (!options.overwrite && newNode) {
-      throw vscode.FileSystemError.FileExists();
+    const oldNode = await this.getTreeNode(oldNames);
+    // renaming a leaf to `enabled[string]` converts it to the tagged type,
+    // which could also be done in place
+    let type: LeafType | undefined;
+    const tagged = parseTypeTag(newNames[newNames.length - 1] ?? "");
+    if (tagged.type && !(await this.getTreeNodeOrNull(newNames))) {
+      if (oldNode.type === vscode.FileType.Directory) {
+        throw vscode.FileSystemError.FileIsADirectory(oldUri);
+      }
+      type = tagged.type;
+      newNames = [...newNames.slice(0, -1), tagged.name];
     }
-
-    if (this.isDataFile(oldPath) || this.isDataFile(newPath)) {
+    if (this.isDataFile(oldNames) || this.isDataFile(newNames)) {
       throw vscode.FileSystemError.NoPermissions(
         l10n.t("Renaming of data file is forbidden")
       );
@@ -551,24 +1181,66 @@ export class SopsFs implements vscode.FileSystemProvider, vscode.Disposable {
     if (!tree) {
       throw new Error("unreachable");
     }
-    const value = objectPath.get(tree, oldPath);
-
-    await this.withSopsFile(async (sopsTemp) => {
-      await this.sopsCmdSet(sopsTemp, newPath, value);
-      await this.sopsCmdSet(sopsTemp, oldPath, DELETED_MARKER);
-      this.addChangeEvent(oldPath, vscode.FileChangeType.Deleted);
-      this.addChangeEvent(
-        newPath,
-        newNode ? vscode.FileChangeType.Changed : vscode.FileChangeType.Created
-      );
+    const oldPath = await this.keyPathOf(oldNames);
+    const newPath = await this.keyPathOf(newNames);
+    // keep the virtual extension of renamed leaf virtual, e.g. `a.pem` =>
+    // `b.pem` renames key `a` to `b`
+    const oldKey = oldPath[oldPath.length - 1];
+    const ext =
+      decodeKeyName(oldNames[oldNames.length - 1]) !== oldKey
+        ? leafExtension(
+            oldKey,
+            this.getValue(tree, oldPath) ?? null,
+            this.leafExtensions,
+            (this.getValue(tree, oldPath.slice(0, -1)) as object | undefined) ??
+              {}
+          )
+        : "";
+    const newKey = newPath[newPath.length - 1] ?? "";
+    if (
+      ext &&
+      newKey.length > ext.length &&
+      newKey.endsWith(ext) &&
+      this.getValue(tree, newPath) === undefined
+    ) {
+      newPath.splice(-1, 1, newKey.slice(0, -ext.length));
+    }
+    const retyped =
+      !!type && JSON.stringify(oldPath) === JSON.stringify(newPath);
+    const exists = this.getValue(tree, newPath) !== undefined;
+    if (!options.overwrite && exists && !retyped) {
+      throw vscode.FileSystemError.FileExists();
+    }
+    if (
+      this.isEncryptedPath(file, oldPath) &&
+      this.isEncryptedPath(file, newPath) === false
+    ) {
+      await this.confirmPlaintext(newPath);
+    }
 
-      let newContent = await this.sopsCmdRead(sopsTemp);
-      newContent = Buffer.from(
-        deleteMarker(this.sopsFormat, newContent.toString())
+    // the embedded document itself is moved as string
+    let value = this.findEmbedded(tree, oldPath)?.subPath.length
+      ? this.getValue(tree, oldPath)
+      : objectPath.get(tree, oldPath);
+    if (type) {
+      value = contentToLeaf(
+        leafToContent(value ?? null).toString(),
+        undefined,
+        false,
+        type
       );
-      await this.sopsCmdWrite(sopsTemp, newContent);
+    }
 
-      await this.applySopsChange(sopsTemp);
-    });
+    await this.writeQueue.enqueue([
+      {
+        type: "set",
+        path: newPath,
+        value,
+        change: exists
+          ? vscode.FileChangeType.Changed
+          : vscode.FileChangeType.Created,
+      },
+      ...(retyped ? [] : [{ type: "delete" as const, path: oldPath }]),
+    ]);
   }
 }
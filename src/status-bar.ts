@@ -0,0 +1,49 @@
+import vscode from "vscode";
+import { l10n } from "vscode";
+import { SopsFsProvider } from "./sopsfs-provider";
+import { SECRETS_VIEW_ID } from "./secrets-view";
+
+/**
+ * Status bar item showing number of SOPS files decrypted right now, hidden
+ * if there is none, or a lock if they are locked
+ */
+export class DecryptedStatusBar implements vscode.Disposable {
+  private item = vscode.window.createStatusBarItem(
+    "sopsfs.decrypted",
+    vscode.StatusBarAlignment.Left
+  );
+  private subscriptions: vscode.Disposable[] = [];
+
+  constructor(private provider: SopsFsProvider) {
+    this.item.name = l10n.t("SOPS Decrypted Files");
+    this.subscriptions.push(
+      this.item,
+      provider.onDidChangeDecrypted(() => this.update()),
+      provider.onDidChangeLock(() => this.update())
+    );
+    this.update();
+  }
+
+  dispose() {
+    this.subscriptions.forEach((i) => i.dispose());
+  }
+
+  private update() {
+    const count = this.provider.decryptedCount;
+    if (this.provider.isLocked) {
+      this.item.text = "$(lock)";
+      this.item.tooltip = l10n.t("SOPS files locked, click to unlock");
+      this.item.command = "sopsfs.unlock";
+      this.item.show();
+      return;
+    }
+    this.item.command = `${SECRETS_VIEW_ID}.focus`;
+    if (count === 0) {
+      this.item.hide();
+      return;
+    }
+    this.item.text = `$(unlock) ${count}`;
+    this.item.tooltip = l10n.t("{0} SOPS file(s) decrypted", count);
+    this.item.show();
+  }
+}
@@ -0,0 +1,118 @@
+import * as assert from "assert";
+import * as path from "path";
+import {
+  VariableContext,
+  expandBraces,
+  globToRegExp,
+  matchProfile,
+  substituteVariables,
+} from "../../config";
+
+const ctx: VariableContext = {
+  workspaceFolder: "/work/app",
+  workspaceFolders: { app: "/work/app", infra: "/work/infra" },
+  file: "/work/app/secrets/prod.sops.yaml",
+  env: { ["HOME"]: "/home/alice" },
+  userHome: "/home/alice",
+};
+
+suite("substituteVariables", () => {
+  test("workspace folder", () => {
+    assert.strictEqual(
+      substituteVariables("${workspaceFolder}/age/key.txt", ctx),
+      "/work/app/age/key.txt"
+    );
+    assert.strictEqual(
+      substituteVariables("${workspaceFolder:infra}/key", ctx),
+      "/work/infra/key"
+    );
+    assert.strictEqual(
+      substituteVariables("${workspaceFolderBasename}", ctx),
+      "app"
+    );
+  });
+
+  test("file", () => {
+    assert.strictEqual(
+      substituteVariables("${fileDirname}/${fileBasename}", ctx),
+      "/work/app/secrets/prod.sops.yaml"
+    );
+  });
+
+  test("environment variables and home", () => {
+    assert.strictEqual(
+      substituteVariables("${env:HOME}/.age:${userHome}", ctx),
+      "/home/alice/.age:/home/alice"
+    );
+    assert.strictEqual(substituteVariables("x${env:MISSING}y", ctx), "xy");
+    assert.strictEqual(substituteVariables("${/}", ctx), path.sep);
+  });
+
+  test("unknown variables are kept", () => {
+    assert.strictEqual(
+      substituteVariables("${unknown} ${workspaceFolder:other}", ctx),
+      "${unknown} ${workspaceFolder:other}"
+    );
+    assert.strictEqual(
+      substituteVariables("${file}", { ...ctx, file: undefined }),
+      "${file}"
+    );
+  });
+});
+
+suite("globToRegExp", () => {
+  test("wildcards", () => {
+    assert.ok(globToRegExp("*.yaml").test("a.yaml"));
+    assert.ok(!globToRegExp("*.yaml").test("dir/a.yaml"));
+    assert.ok(globToRegExp("dir/?.yaml").test("dir/a.yaml"));
+    assert.ok(globToRegExp("prod/**").test("prod/a/b.yaml"));
+    assert.ok(globToRegExp("**/prod.yaml").test("prod.yaml"));
+    assert.ok(globToRegExp("**/prod.yaml").test("a/b/prod.yaml"));
+    assert.ok(!globToRegExp("**/prod.yaml").test("a/xprod.yaml"));
+  });
+
+  test("groups and ranges", () => {
+    const re = globToRegExp("{prod,stg}-[0-9].{yaml,json}");
+    assert.ok(re.test("prod-1.yaml"));
+    assert.ok(re.test("stg-2.json"));
+    assert.ok(!re.test("dev-1.yaml"));
+    assert.ok(!globToRegExp("[!a]").test("a"));
+    assert.ok(globToRegExp("a+b.(1)").test("a+b.(1)"));
+  });
+});
+
+suite("matchProfile", () => {
+  const profiles = {
+    prod: { files: ["prod/**", "**/*.prod.yaml"] },
+    staging: { files: "staging/**" },
+    fallback: {},
+  };
+
+  test("first matching profile", () => {
+    assert.strictEqual(matchProfile(profiles, "prod/a.yaml"), "prod");
+    assert.strictEqual(matchProfile(profiles, "x/a.prod.yaml"), "prod");
+    assert.strictEqual(matchProfile(profiles, "staging/a.yaml"), "staging");
+    assert.strictEqual(matchProfile(profiles, "dev/a.yaml"), undefined);
+  });
+});
+
+suite("expandBraces", () => {
+  test("groups", () => {
+    assert.deepStrictEqual(expandBraces("**/node_modules"), [
+      "**/node_modules",
+    ]);
+    assert.deepStrictEqual(expandBraces("**/*.{js,map}"), [
+      "**/*.js",
+      "**/*.map",
+    ]);
+    assert.deepStrictEqual(expandBraces("{a,b}/{c,d{e,f}}"), [
+      "a/c",
+      "a/de",
+      "a/df",
+      "b/c",
+      "b/de",
+      "b/df",
+    ]);
+    assert.deepStrictEqual(expandBraces("a{b"), ["a{b"]);
+  });
+});
@@ -0,0 +1,99 @@
+import * as assert from "assert";
+import {
+  decodeKeyName,
+  encodeKeyName,
+  parseSopsSetArg,
+  pathToSopsSetPath,
+} from "../../key-path";
+
+// keys found in our YAML files that don't map to filenames as is
+const AWKWARD_KEYS = [
+  "",
+  "%",
+  "%25",
+  "100%",
+  "a/b",
+  "C:\\tmp",
+  ".",
+  "..",
+  "...",
+  ".env",
+  'say "hi"',
+  "it's",
+  "[0]",
+  "a]b",
+  "__sopsfs__.yaml",
+  "__sops__",
+  "名前",
+];
+
+const reserved = (name: string) =>
+  name === "__sopsfs__.yaml" || name === "__sops__";
+
+suite("encodeKeyName", () => {
+  test("round trip", () => {
+    for (const key of AWKWARD_KEYS) {
+      const name = encodeKeyName(key, reserved);
+      assert.strictEqual(decodeKeyName(name), key, name);
+      assert.ok(name, key);
+      assert.ok(!name.includes("/") && !name.includes("\\"), name);
+      assert.ok(name !== "." && name !== "..", key);
+      assert.ok(!reserved(name), key);
+    }
+  });
+
+  test("unique", () => {
+    const names = AWKWARD_KEYS.map((key) => encodeKeyName(key, reserved));
+    assert.strictEqual(new Set(names).size, names.length);
+  });
+
+  test("plain keys unchanged", () => {
+    for (const key of ["password", ".env", "100%", "a%b", "db.host", "_id"]) {
+      assert.strictEqual(encodeKeyName(key, reserved), key);
+    }
+  });
+
+  test("reserved only when asked", () => {
+    assert.strictEqual(encodeKeyName("__sops__", reserved), "%5F_sops__");
+    assert.strictEqual(encodeKeyName("__sops__"), "__sops__");
+  });
+});
+
+suite("pathToSopsSetPath", () => {
+  const tree = { a: { list: ["x", { b: 1 }] }, ['say "hi"']: "", [""]: 1 };
+
+  test("keys and indexes", () => {
+    assert.strictEqual(
+      pathToSopsSetPath(["a", "list", "1", "b"], tree),
+      '["a"]["list"][1]["b"]'
+    );
+    assert.strictEqual(pathToSopsSetPath(['say "hi"'], tree), '["say "hi""]');
+    assert.strictEqual(pathToSopsSetPath([""], tree), '[""]');
+  });
+
+  test("invalid index", () => {
+    assert.throws(() => pathToSopsSetPath(["a", "list", "01"], tree));
+  });
+
+  test("keys sops can't express", () => {
+    assert.strictEqual(pathToSopsSetPath(["a] b"], tree), null);
+    assert.strictEqual(pathToSopsSetPath(["a][b"], tree), null);
+  });
+
+  test("parsed back the way sops does", () => {
+    for (const key of AWKWARD_KEYS) {
+      const setPath = pathToSopsSetPath(["a", key], tree);
+      assert.ok(setPath, key);
+      assert.deepStrictEqual(parseSopsSetArg(`${setPath} "v"`), {
+        path: ["a", key],
+        value: '"v"',
+      });
+    }
+    assert.deepStrictEqual(parseSopsSetArg(`["a"][1] {"b": 1}`), {
+      path: ["a", 1],
+      value: '{"b": 1}',
+    });
+    assert.strictEqual(parseSopsSetArg('["a"]'), null);
+    assert.strictEqual(parseSopsSetArg("[a] 1"), null);
+  });
+});
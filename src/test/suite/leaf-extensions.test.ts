@@ -0,0 +1,75 @@
+import * as assert from "assert";
+import { detectExtension, leafExtension } from "../../leaf-extensions";
+
+const PEM = `-----BEGIN CERTIFICATE-----
+MIIBszCCAVmgAwIBAgIUQ0aX
+-----END CERTIFICATE-----
+`;
+
+suite("detectExtension", () => {
+  test("PEM", () => {
+    assert.strictEqual(detectExtension(PEM), ".pem");
+    assert.strictEqual(detectExtension("-----BEGIN CERT"), "");
+  });
+
+  test("shell", () => {
+    assert.strictEqual(detectExtension("#!/bin/sh\necho hi\n"), ".sh");
+    assert.strictEqual(detectExtension("#!/usr/bin/env bash\n"), ".sh");
+    assert.strictEqual(detectExtension("export FOO=bar\n"), ".sh");
+    assert.strictEqual(detectExtension("#!/usr/bin/env python3\n"), "");
+  });
+
+  test("JSON", () => {
+    assert.strictEqual(detectExtension('{"a": 1}'), ".json");
+    assert.strictEqual(detectExtension("[1, 2]\n"), ".json");
+    assert.strictEqual(detectExtension("3"), "");
+    assert.strictEqual(detectExtension('"foo"'), "");
+  });
+
+  test("YAML", () => {
+    assert.strictEqual(detectExtension("a: 1\nb:\n  - c\n"), ".yaml");
+    assert.strictEqual(detectExtension("a: 1"), "");
+    assert.strictEqual(detectExtension("line 1\nline 2\n"), "");
+  });
+
+  test("plain", () => {
+    assert.strictEqual(detectExtension(""), "");
+    assert.strictEqual(detectExtension("hunter2"), "");
+  });
+});
+
+suite("leafExtension", () => {
+  const opts = {
+    rules: { ["*_cert"]: ".pem", ["nginx"]: "conf" },
+    detect: true,
+  };
+
+  test("rules", () => {
+    assert.strictEqual(leafExtension("tls_cert", "", opts), ".pem");
+    assert.strictEqual(leafExtension("nginx", "server {}", opts), ".conf");
+    assert.strictEqual(leafExtension("port", 443, opts), "");
+  });
+
+  test("detect", () => {
+    assert.strictEqual(leafExtension("ca", PEM, opts), ".pem");
+    assert.strictEqual(
+      leafExtension("ca", PEM, { ...opts, detect: false }),
+      ""
+    );
+  });
+
+  test("key with extension", () => {
+    assert.strictEqual(leafExtension("config.json", '{"a": 1}', opts), "");
+    assert.strictEqual(leafExtension("ca.crt", PEM, opts), "");
+  });
+
+  test("sibling of extended name", () => {
+    const siblings = { config: '{"a": 1}', ["config.json"]: "{}", ca: PEM };
+    assert.strictEqual(
+      leafExtension("config", siblings.config, opts, siblings),
+      ""
+    );
+    assert.strictEqual(leafExtension("ca", PEM, opts, siblings), ".pem");
+    assert.strictEqual(leafExtension("config", '{"a": 1}', opts, {}), ".json");
+  });
+});
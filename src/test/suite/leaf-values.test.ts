@@ -0,0 +1,52 @@
+import * as assert from "assert";
+import { contentToLeaf, leafToContent, parseTypeTag } from "../../leaf-values";
+
+suite("leaf values", () => {
+  const roundTrip = (value: null | boolean | number | string) =>
+    contentToLeaf(leafToContent(value).toString(), value, false);
+
+  test("round trip keeps types", () => {
+    for (const value of [3, 1.5, -2, true, false, null, "3", "true", "null"]) {
+      assert.strictEqual(roundTrip(value), value);
+    }
+    assert.strictEqual(leafToContent(3).toString(), "3");
+    assert.strictEqual(leafToContent(null).toString(), "null");
+  });
+
+  test("contentToLeaf keeps previous type while it parses", () => {
+    assert.strictEqual(contentToLeaf("4", 3, false), 4);
+    assert.strictEqual(contentToLeaf("four", 3, false), "four");
+    assert.strictEqual(contentToLeaf("false", true, false), false);
+    assert.strictEqual(contentToLeaf("1", true, false), "1");
+    assert.strictEqual(contentToLeaf("5", "3", true), "5");
+  });
+
+  test("contentToLeaf of new values", () => {
+    assert.strictEqual(contentToLeaf("3", undefined, false), "3");
+    assert.strictEqual(contentToLeaf("3", undefined, true), 3);
+    assert.strictEqual(contentToLeaf("null", undefined, true), null);
+    assert.strictEqual(contentToLeaf("[1]", undefined, true), "[1]");
+  });
+
+  test("contentToLeaf with explicit type", () => {
+    assert.strictEqual(contentToLeaf("3", undefined, true, "string"), "3");
+    assert.strictEqual(contentToLeaf("true", "x", false, "boolean"), true);
+    assert.strictEqual(contentToLeaf("3\n", undefined, false, "number"), 3);
+    assert.strictEqual(contentToLeaf("null", undefined, false, "null"), null);
+    assert.throws(() => contentToLeaf("yes", undefined, false, "boolean"));
+    assert.throws(() => contentToLeaf("", undefined, false, "null"));
+  });
+
+  test("parseTypeTag", () => {
+    assert.deepStrictEqual(parseTypeTag("replicas[number]"), {
+      name: "replicas",
+      type: "number",
+    });
+    assert.deepStrictEqual(parseTypeTag("a[number][string]"), {
+      name: "a[number]",
+      type: "string",
+    });
+    assert.deepStrictEqual(parseTypeTag("[number]"), { name: "[number]" });
+    assert.deepStrictEqual(parseTypeTag("a[int]"), { name: "a[int]" });
+  });
+});
@@ -0,0 +1,61 @@
+import * as assert from "assert";
+import { flattenEnv, parseEnvPath, secretEnvOf } from "../../secret-env";
+
+suite("secret env", () => {
+  const tree = {
+    ["API_KEY"]: "abc",
+    db: { host: "localhost", port: 5432, ["pass-word"]: "x=y" },
+    hosts: ["a", "b"],
+    empty: null,
+  };
+
+  test("flattenEnv", () => {
+    assert.deepStrictEqual(flattenEnv(tree), {
+      ["API_KEY"]: "abc",
+      ["db_host"]: "localhost",
+      ["db_port"]: "5432",
+      ["db_pass-word"]: "x=y",
+      ["hosts_0"]: "a",
+      ["hosts_1"]: "b",
+      empty: "",
+    });
+    assert.deepStrictEqual(flattenEnv({ ["1st"]: true }), { ["1st"]: "true" });
+    assert.deepStrictEqual(flattenEnv({ ["a=b"]: "c" }), { ["a_b"]: "c" });
+    assert.deepStrictEqual(flattenEnv("abc"), {});
+    assert.deepStrictEqual(flattenEnv("abc", "a.b"), { ["a.b"]: "abc" });
+  });
+
+  test("nested keys", () => {
+    assert.deepStrictEqual(
+      flattenEnv({
+        app: { db: { user: "u", ports: [1, 2] }, debug: false },
+        ["app_db_user"]: "top",
+      }),
+      {
+        ["app_db_user"]: "top",
+        ["app_db_ports_0"]: "1",
+        ["app_db_ports_1"]: "2",
+        ["app_debug"]: "false",
+      }
+    );
+  });
+
+  test("secretEnvOf", () => {
+    assert.deepStrictEqual(secretEnvOf(tree, ["db"]), {
+      host: "localhost",
+      port: "5432",
+      ["pass-word"]: "x=y",
+    });
+    assert.deepStrictEqual(secretEnvOf(tree, ["hosts", "1"]), { ["1"]: "b" });
+    assert.deepStrictEqual(secretEnvOf(tree, ["API_KEY"]), {
+      ["API_KEY"]: "abc",
+    });
+    assert.throws(() => secretEnvOf(tree, ["db", "user"]));
+  });
+
+  test("parseEnvPath", () => {
+    assert.deepStrictEqual(parseEnvPath(undefined), []);
+    assert.deepStrictEqual(parseEnvPath("/db/prod/"), ["db", "prod"]);
+    assert.deepStrictEqual(parseEnvPath("a%2Fb/c"), ["a/b", "c"]);
+  });
+});
@@ -0,0 +1,169 @@
+import * as assert from "assert";
+import { SopsFormat } from "../../sops-format";
+import { AgeIdentity, decryptAge, parseIdentities } from "../../age";
+import {
+  decryptDataKey,
+  decryptDocument,
+  emitTree,
+  encryptDocument,
+  hasComments,
+  isPathEncrypted,
+  joinMetadata,
+  parseTree,
+  splitMetadata,
+  toggledKeyName,
+} from "../../sops-crypto";
+
+// demo/keys.txt and demo/demo2.sops.yaml, encrypted by sops 3.7.3
+const IDENTITY =
+  "AGE-SECRET-KEY-1H7EAQVYYRC0EQ2S7V6XKEJ0TF5ZGGV0AVWHQ4424ZR8DMAU5LR0QL3ME6G";
+const RECIPIENT =
+  "age1vfgdmslvvy3hpyds0nuhwltwks6xp9vwsxyrcr8vthatkh4lf9cqgx5pd5";
+const DEMO_YAML = [
+  "file1: ENC[AES256_GCM,data:xxk=,iv:1rx/kTP5clsPugnj8nmv4wuTbpCHAvBZ96hOHCf4Rb4=,tag:pmyiVZ3UelRkfCCUkXcx2Q==,type:str]",
+  "array:",
+  "    - ENC[AES256_GCM,data:4g==,iv:odMJxuy2D0aF3WnuMR66yRQ/Arx1n4u6ctck7QvR7c8=,tag:pPZbYfrcFlWBkP8K/QwzKg==,type:str]",
+  "    - ENC[AES256_GCM,data:og==,iv:ZOmLjY7AKIlfQvfcxUfFDiJ6hKk8j/HJLje1hdEDQAA=,tag:NkbV25bouNQTWbOz6MiKuw==,type:str]",
+  "dir1:",
+  "    dir2:",
+  "        file1: ENC[AES256_GCM,data:JRQfbxc=,iv:VHRQcKMp5jLIg3C7vjlkDFMgDCE5O4qKw8t/Lfp+Rvg=,tag:Voezv4ha1UNgMUX2AK1QCw==,type:str]",
+  "    file2: ENC[AES256_GCM,data:rND8qNw=,iv:j7ktELSPNZ4UJNqFWrD5Ptl1SEK7K76dRh1a0HmwYMQ=,tag:uJS+TOCaFgGB7vHuHw7w/w==,type:str]",
+  "sops:",
+  "    kms: []",
+  "    gcp_kms: []",
+  "    azure_kv: []",
+  "    hc_vault: []",
+  "    age:",
+  "        - recipient: age1vfgdmslvvy3hpyds0nuhwltwks6xp9vwsxyrcr8vthatkh4lf9cqgx5pd5",
+  "          enc: |",
+  "            -----BEGIN AGE ENCRYPTED FILE-----",
+  "            YWdlLWVuY3J5cHRpb24ub3JnL3YxCi0+IFgyNTUxOSBIVTZoaldaU2N0cEpCRHRi",
+  "            RXdpOExQdWMvdC92T3RYbVZrV2V0VHE3Wmp3CkFvOURMY21BclNWZGNoNGJwRUp3",
+  "            YzVyZGl6WU1Xb1hMcW8xek1FclAzNTAKLS0tIEU1OUlyZ01GZ085L1RheVFNY0Fw",
+  "            THdhd1NRa0g0dFcwK2Rjc2E3NnR2eEkKwMeF9vPdxwCet7XcYS4INJZyskc9Bs7Q",
+  "            wej/2FJxtvGgD/Y7TK7+X1NKyxFH3jFJeyBR7GXr7vKbZhRJLHdQ8w==",
+  "            -----END AGE ENCRYPTED FILE-----",
+  '    lastmodified: "2023-03-18T07:16:25Z"',
+  "    mac: ENC[AES256_GCM,data:LhbtsApUaalN2zCF/fod0xnvfNpq226iMYGfxRSLz1dXRTBCFLKXSzfJVeubU1zUGnTr1WYe/ynxiLX7Imb6wk2qFygEJmodzkf7aqXvSLiVnMBVHKAompWphyPSguv6nF1t0J8wQRdQs3u0kCZ+MFhd3uQlhYDXS1KqgFrpy94=,iv:vbMLLwDYxNWmlvemiqZa4lVuIorKx5CCaGOVo/KgVEU=,tag:hTy9Uk9Beuaj6ru0eaq6/Q==,type:str]",
+  "    pgp: []",
+  "    unencrypted_suffix: _unencrypted",
+  "    version: 3.7.3",
+  "",
+].join("\n");
+
+function decryptYaml(content: string) {
+  const doc = splitMetadata(parseTree(content, SopsFormat.yaml));
+  const key = decryptDataKey(doc.metadata, [AgeIdentity.parse(IDENTITY)]);
+  return { doc, key, tree: decryptDocument(doc, key) };
+}
+
+suite("age", () => {
+  test("identity", () => {
+    const [identity] = parseIdentities(
+      `# public key: ${RECIPIENT}\n${IDENTITY}\n`
+    );
+    assert.strictEqual(identity.recipient, RECIPIENT);
+  });
+
+  test("wrong identity", () => {
+    const doc = splitMetadata(parseTree(DEMO_YAML, SopsFormat.yaml));
+    const [age] = doc.metadata.get("age") as Map<string, string>[];
+    const other = new AgeIdentity(Buffer.alloc(32, 1));
+    assert.throws(() => decryptAge(Buffer.from(age.get("enc") ?? ""), [other]));
+  });
+});
+
+suite("sops-crypto", () => {
+  test("decrypt", () => {
+    const { tree } = decryptYaml(DEMO_YAML);
+    assert.strictEqual(
+      emitTree(tree, SopsFormat.yaml),
+      [
+        "file1: hi",
+        "array:",
+        "    - a",
+        "    - b",
+        "dir1:",
+        "    dir2:",
+        "        file1: file1",
+        "    file2: file2",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("MAC mismatch", () => {
+    const { doc } = decryptYaml(DEMO_YAML);
+    const tampered = emitTree(
+      joinMetadata({
+        tree: new Map([...doc.tree].filter(([key]) => key !== "file1")),
+        metadata: doc.metadata,
+      }),
+      SopsFormat.yaml
+    );
+    assert.throws(() => decryptYaml(tampered), /MAC mismatch/);
+  });
+
+  test("encrypt", () => {
+    const { doc, key, tree } = decryptYaml(DEMO_YAML);
+    tree.set("count", 3);
+    tree.set("ratio", 0.5);
+    tree.set("enabled", false);
+    tree.set("note_unencrypted", "plain");
+    const encrypted = encryptDocument(tree, doc.metadata, key);
+    assert.strictEqual(encrypted.tree.get("note_unencrypted"), "plain");
+    assert.match(String(encrypted.tree.get("count")), /,type:int\]$/);
+    assert.match(String(encrypted.tree.get("ratio")), /,type:float\]$/);
+    assert.match(String(encrypted.tree.get("enabled")), /,type:bool\]$/);
+
+    const content = emitTree(joinMetadata(encrypted), SopsFormat.yaml);
+    assert.match(content, /lastmodified: "\d{4}-\d\d-\d\dT[\d:]{8}Z"/);
+    assert.deepStrictEqual(decryptYaml(content).tree, tree);
+  });
+
+  test("JSON", () => {
+    const { doc, key, tree } = decryptYaml(DEMO_YAML);
+    const content = emitTree(
+      joinMetadata(encryptDocument(tree, doc.metadata, key)),
+      SopsFormat.json
+    );
+    const jsonDoc = splitMetadata(parseTree(content, SopsFormat.json));
+    assert.deepStrictEqual(decryptDocument(jsonDoc, key), tree);
+  });
+
+  test("comments", () => {
+    assert.ok(!hasComments(DEMO_YAML, SopsFormat.yaml));
+    assert.ok(hasComments("#ENC[AES256_GCM,data:x]\na: 1\n", SopsFormat.yaml));
+    assert.ok(hasComments("a:\n    b: 1 #ENC[x]\n", SopsFormat.yaml));
+    assert.ok(!hasComments('{"a": "#b"}', SopsFormat.json));
+  });
+
+  test("encrypted paths", () => {
+    const metadata = new Map([["encrypted_regex", "^(data|stringData)$"]]);
+    assert.ok(isPathEncrypted(metadata, ["data", "password"]));
+    assert.ok(!isPathEncrypted(metadata, ["metadata", "name"]));
+    const suffix = new Map([["unencrypted_suffix", "_unencrypted"]]);
+    assert.ok(!isPathEncrypted(suffix, ["a_unencrypted", "b"]));
+    assert.ok(isPathEncrypted(suffix, ["a", "b"]));
+    assert.ok(!isPathEncrypted({ ["encrypted_suffix"]: "_enc" }, ["a"]));
+  });
+
+  test("toggled key name", () => {
+    const unencrypted = new Map([["unencrypted_suffix", "_unencrypted"]]);
+    assert.strictEqual(
+      toggledKeyName(unencrypted, ["a", "b"]),
+      "b_unencrypted"
+    );
+    assert.strictEqual(toggledKeyName(unencrypted, ["b_unencrypted"]), "b");
+    // suffix of a parent key can't be undone by renaming the leaf
+    assert.strictEqual(
+      toggledKeyName(unencrypted, ["a_unencrypted", "b"]),
+      null
+    );
+    const encrypted = { ["encrypted_suffix"]: "_enc" };
+    assert.strictEqual(toggledKeyName(encrypted, ["a"]), "a_enc");
+    assert.strictEqual(toggledKeyName(encrypted, ["a_enc"]), "a");
+    const regex = { ["encrypted_regex"]: "^data$" };
+    assert.strictEqual(toggledKeyName(regex, ["data", "a"]), null);
+  });
+});
@@ -0,0 +1,64 @@
+import * as assert from "assert";
+import { SopsFormat } from "../../sops-format";
+import { detectSopsFormat } from "../../sops-detect";
+
+const MAC = "ENC[AES256_GCM,data:abc,iv:def,tag:ghi,type:str]";
+
+suite("detectSopsFormat", () => {
+  test("JSON", () => {
+    const content = JSON.stringify({
+      foo: "ENC[AES256_GCM,data:x,iv:y,tag:z,type:str]",
+      sops: { mac: MAC, version: "3.7.3" },
+    });
+    assert.strictEqual(detectSopsFormat(content), SopsFormat.json);
+  });
+
+  test("binary", () => {
+    const content = JSON.stringify({
+      data: "ENC[AES256_GCM,data:x,iv:y,tag:z,type:str]",
+      sops: { mac: MAC, version: "3.7.3" },
+    });
+    assert.strictEqual(detectSopsFormat(content), SopsFormat.binary);
+  });
+
+  test("YAML", () => {
+    const content = [
+      "foo: ENC[AES256_GCM,data:x,iv:y,tag:z,type:str]",
+      "sops:",
+      `  mac: ${MAC}`,
+      "  version: 3.7.3",
+      "",
+    ].join("\n");
+    assert.strictEqual(detectSopsFormat(content), SopsFormat.yaml);
+  });
+
+  test("INI", () => {
+    const content = [
+      "[app]",
+      "foo = ENC[AES256_GCM,data:x,iv:y,tag:z,type:str]",
+      "",
+      "[sops]",
+      `mac = ${MAC}`,
+      "version = 3.7.3",
+      "",
+    ].join("\n");
+    assert.strictEqual(detectSopsFormat(content), SopsFormat.ini);
+  });
+
+  test("ENV", () => {
+    const content = [
+      "FOO=ENC[AES256_GCM,data:x,iv:y,tag:z,type:str]",
+      `sops_mac=${MAC}`,
+      "sops_version=3.7.3",
+      "",
+    ].join("\n");
+    assert.strictEqual(detectSopsFormat(content), SopsFormat.env);
+  });
+
+  test("plaintext", () => {
+    assert.strictEqual(detectSopsFormat('{"foo": "bar"}'), null);
+    assert.strictEqual(detectSopsFormat("sops: tool\n"), null);
+    assert.strictEqual(detectSopsFormat("sops_enabled=true\n"), null);
+    assert.strictEqual(detectSopsFormat(""), null);
+  });
+});
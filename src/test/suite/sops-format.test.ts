@@ -0,0 +1,337 @@
+import * as assert from "assert";
+import {
+  SopsFormat,
+  deleteKey,
+  isMultiDocument,
+  locateLeaves,
+  parseDecrypted,
+  parseEmbeddedDocument,
+  setKey,
+  toSopsFilename,
+} from "../../sops-format";
+
+suite("deleteKey", () => {
+  test("JSON", () => {
+    const content = [
+      "{",
+      '\t"a": "1",',
+      '\t"say \\"hi\\"": "2",',
+      '\t"arr": [',
+      '\t\t"x",',
+      '\t\t"y"',
+      "\t]",
+      "}",
+    ].join("\n");
+    assert.strictEqual(
+      deleteKey(SopsFormat.json, content, ['say "hi"']),
+      [
+        "{",
+        '\t"a": "1",',
+        '\t"arr": [',
+        '\t\t"x",',
+        '\t\t"y"',
+        "\t]",
+        "}",
+      ].join("\n")
+    );
+    assert.deepStrictEqual(
+      JSON.parse(deleteKey(SopsFormat.json, content, ["arr", "0"])).arr,
+      ["y"]
+    );
+    assert.throws(() => deleteKey(SopsFormat.json, content, ["b"]));
+    assert.throws(() => deleteKey(SopsFormat.json, content, ["arr", "x"]));
+  });
+
+  test("YAML", () => {
+    const content = [
+      "# head",
+      "a: |",
+      "    line1",
+      "    line2",
+      "# about b",
+      "b: 2",
+      "1: one",
+      "arr:",
+      "    - x",
+      "    - y",
+      "",
+    ].join("\n");
+    assert.strictEqual(
+      deleteKey(SopsFormat.yaml, content, ["a"]),
+      [
+        "# head",
+        "# about b",
+        "b: 2",
+        "1: one",
+        "arr:",
+        "    - x",
+        "    - y",
+        "",
+      ].join("\n")
+    );
+    assert.strictEqual(
+      deleteKey(SopsFormat.yaml, content, ["1"]),
+      content.replace("1: one\n", "")
+    );
+    assert.strictEqual(
+      deleteKey(SopsFormat.yaml, content, ["arr", "1"]),
+      content.replace("    - y\n", "")
+    );
+    assert.throws(() => deleteKey(SopsFormat.yaml, "a: 1\n---\nb: 2\n", ["a"]));
+    assert.throws(() => deleteKey(SopsFormat.yaml, "a: 1\na: 2\n", ["a"]));
+  });
+
+  test("INI", () => {
+    const content = [
+      "top = 0",
+      "",
+      "[s1]",
+      "; comment",
+      "a = 1",
+      'b = """multi',
+      'line"""',
+      "",
+      "; about s2",
+      "[s2]",
+      "a = 2",
+      "",
+    ].join("\n");
+    assert.strictEqual(
+      deleteKey(SopsFormat.ini, content, ["s1", "b"]),
+      content.replace('b = """multi\nline"""\n', "")
+    );
+    assert.strictEqual(
+      deleteKey(SopsFormat.ini, content, ["s1"]),
+      ["top = 0", "", "", "; about s2", "[s2]", "a = 2", ""].join("\n")
+    );
+    assert.strictEqual(
+      deleteKey(SopsFormat.ini, content, ["DEFAULT", "top"]),
+      content.replace("top = 0\n", "")
+    );
+    assert.throws(() => deleteKey(SopsFormat.ini, content, ["s1", "c"]));
+    assert.throws(() => deleteKey(SopsFormat.ini, content, ["s1", "a", "x"]));
+  });
+
+  test("ENV", () => {
+    const content = "# comment\nA=1\nAB=2\n";
+    assert.strictEqual(
+      deleteKey(SopsFormat.env, content, ["A"]),
+      "# comment\nAB=2\n"
+    );
+    assert.throws(() => deleteKey(SopsFormat.env, content, ["B"]));
+    assert.throws(() => deleteKey(SopsFormat.env, "A=1\nA=2\n", ["A"]));
+  });
+
+  test("binary", () => {
+    assert.throws(() => deleteKey(SopsFormat.binary, "", ["a"]));
+  });
+});
+
+suite("setKey", () => {
+  test("JSON", () => {
+    const content = '{\n\t"a": "1",\n\t"arr": ["x"]\n}';
+    assert.deepStrictEqual(
+      JSON.parse(setKey(SopsFormat.json, content, ["b"], { c: 3 })),
+      { a: "1", arr: ["x"], b: { c: 3 } }
+    );
+    assert.deepStrictEqual(
+      JSON.parse(setKey(SopsFormat.json, content, ["arr", "1"], true)),
+      { a: "1", arr: ["x", true] }
+    );
+    assert.throws(() => setKey(SopsFormat.json, content, ["a", "b"], 1));
+    assert.throws(() => setKey(SopsFormat.json, content, ["arr", "3"], 1));
+  });
+
+  test("YAML", () => {
+    const content = "# head\na: 'quoted' # note\nb: |\n    x\narr:\n    - 1\n";
+    assert.strictEqual(
+      setKey(SopsFormat.yaml, content, ["a"], "changed"),
+      "# head\na: 'changed' # note\nb: |\n    x\narr:\n    - 1\n"
+    );
+    assert.strictEqual(
+      setKey(SopsFormat.yaml, content, ["arr", "1"], "2"),
+      content + '    - "2"\n'
+    );
+    assert.strictEqual(
+      setKey(SopsFormat.yaml, content, ["c"], 3),
+      content + "c: 3\n"
+    );
+    assert.strictEqual(setKey(SopsFormat.yaml, "", ["a"], "x"), "a: x\n");
+  });
+
+  test("INI", () => {
+    const content = "[s1]\na = 1\n\n[s2]\nb = 2\n";
+    assert.strictEqual(
+      setKey(SopsFormat.ini, content, ["s1", "c"], "x;y"),
+      "[s1]\na = 1\nc = `x;y`\n\n[s2]\nb = 2\n"
+    );
+    assert.strictEqual(
+      setKey(SopsFormat.ini, content, ["s2", "b"], "multi\nline"),
+      '[s1]\na = 1\n\n[s2]\nb = """multi\nline"""\n'
+    );
+    assert.strictEqual(
+      setKey(SopsFormat.ini, content, ["s3"], {}),
+      content + "\n[s3]\n"
+    );
+    assert.throws(() => setKey(SopsFormat.ini, content, ["s1", "a"], {}));
+  });
+
+  test("ENV", () => {
+    const content = "# comment\nA=1\n";
+    assert.strictEqual(
+      setKey(SopsFormat.env, content, ["A"], "x\ny"),
+      "# comment\nA=x\\ny\n"
+    );
+    assert.strictEqual(
+      setKey(SopsFormat.env, content, ["B"], 2),
+      "# comment\nA=1\nB=2\n"
+    );
+    assert.throws(() => setKey(SopsFormat.env, content, ["A", "B"], "x"));
+  });
+});
+
+suite("parseDecrypted", () => {
+  test("YAML", () => {
+    assert.deepStrictEqual(
+      parseDecrypted(SopsFormat.yaml, "a: 1\n2: [true, null]\nb: |\n  x\n"),
+      { a: 1, ["2"]: [true, null], b: "x\n" }
+    );
+  });
+
+  test("INI", () => {
+    assert.deepStrictEqual(
+      parseDecrypted(
+        SopsFormat.ini,
+        'top = 0\n[s1]\n; comment\na = `x ; y`\nb = """multi\nline"""\n'
+      ),
+      { ["DEFAULT"]: { top: "0" }, s1: { a: "x ; y", b: "multi\nline" } }
+    );
+  });
+
+  test("ENV", () => {
+    assert.deepStrictEqual(
+      parseDecrypted(SopsFormat.env, "# comment\nA=1\nB=x\\ny=z\n"),
+      { ["A"]: "1", ["B"]: "x\ny=z" }
+    );
+  });
+
+  test("binary", () => {
+    assert.strictEqual(parseDecrypted(SopsFormat.binary, "data"), null);
+  });
+});
+
+suite("toSopsFilename", () => {
+  test("insert .sops before extension", () => {
+    assert.strictEqual(toSopsFilename("foo.json"), "foo.sops.json");
+    assert.strictEqual(toSopsFilename("foo.bar.yml"), "foo.bar.sops.yml");
+    assert.strictEqual(toSopsFilename("app.env"), "app.sops.env");
+  });
+
+  test("append .sops to binary file", () => {
+    assert.strictEqual(toSopsFilename("key.pem"), "key.pem.sops");
+    assert.strictEqual(toSopsFilename(".env"), ".env.sops");
+  });
+});
+
+suite("parseEmbeddedDocument", () => {
+  test("JSON", () => {
+    assert.deepStrictEqual(parseEmbeddedDocument('{"type": "x", "n": 1}'), {
+      format: SopsFormat.json,
+      tree: { type: "x", n: 1 },
+    });
+  });
+
+  test("YAML", () => {
+    assert.deepStrictEqual(
+      parseEmbeddedDocument("kind: Secret\ndata:\n  a: b\n"),
+      { format: SopsFormat.yaml, tree: { kind: "Secret", data: { a: "b" } } }
+    );
+  });
+
+  test("not a dictionary", () => {
+    assert.strictEqual(parseEmbeddedDocument("hello"), null);
+    assert.strictEqual(parseEmbeddedDocument("[1, 2]"), null);
+    assert.strictEqual(parseEmbeddedDocument("- a\n- b\n"), null);
+    assert.strictEqual(parseEmbeddedDocument(""), null);
+  });
+});
+
+suite("multi-document YAML", () => {
+  const content = "a: 1\n---\n# second\nb: x\n";
+
+  test("parse", () => {
+    assert.deepStrictEqual(parseDecrypted(SopsFormat.yaml, content), {
+      ["doc-0"]: { a: 1 },
+      ["doc-1"]: { b: "x" },
+    });
+    assert.ok(isMultiDocument(SopsFormat.yaml, content));
+    assert.ok(!isMultiDocument(SopsFormat.yaml, "a: 1\n"));
+  });
+
+  test("set", () => {
+    assert.strictEqual(
+      setKey(SopsFormat.yaml, content, ["doc-1", "b"], "y"),
+      "a: 1\n---\n# second\nb: y\n"
+    );
+    assert.strictEqual(
+      setKey(SopsFormat.yaml, content, ["doc-2"], { c: true }),
+      content + "---\nc: true\n"
+    );
+    assert.throws(() => setKey(SopsFormat.yaml, content, ["b"], "y"));
+    assert.throws(() => setKey(SopsFormat.yaml, content, ["doc-3", "c"], 1));
+  });
+
+  test("delete", () => {
+    assert.strictEqual(
+      deleteKey(SopsFormat.yaml, content, ["doc-0", "a"]),
+      "{}\n---\n# second\nb: x\n"
+    );
+    assert.strictEqual(
+      deleteKey(SopsFormat.yaml, content + "---\nc: 2\n", ["doc-1"]),
+      "a: 1\n---\nc: 2\n"
+    );
+  });
+});
+
+suite("locateLeaves", () => {
+  const located = (format: SopsFormat, content: string) =>
+    locateLeaves(format, content).map(({ keyPath, start, end }) => [
+      keyPath.join("/"),
+      content.slice(start, end),
+    ]);
+
+  test("JSON", () => {
+    const content =
+      '{\n\t"a": {"b": "ENC[1]"},\n\t"l": ["ENC[2]", 3],\n\t"sops": {"mac": "x"}\n}\n';
+    assert.deepStrictEqual(located(SopsFormat.json, content), [
+      ["a/b", '"ENC[1]"'],
+      ["l/0", '"ENC[2]"'],
+      ["l/1", "3"],
+    ]);
+  });
+
+  test("YAML", () => {
+    const content = "a:\n    b: ENC[1]\nl:\n    - ENC[2]\nsops:\n    mac: x\n";
+    assert.deepStrictEqual(located(SopsFormat.yaml, content), [
+      ["a/b", "ENC[1]"],
+      ["l/0", "ENC[2]"],
+    ]);
+    const multi = "a: ENC[1]\nsops:\n    mac: x\n---\nb: ENC[2]\n";
+    assert.deepStrictEqual(located(SopsFormat.yaml, multi), [
+      ["doc-0/a", "ENC[1]"],
+      ["doc-1/b", "ENC[2]"],
+    ]);
+  });
+
+  test("INI", () => {
+    const content = "[s]\na = ENC[1]\n\n[sops]\nmac = x\n";
+    assert.deepStrictEqual(located(SopsFormat.ini, content), [
+      ["s/a", "ENC[1]"],
+    ]);
+  });
+
+  test("ENV", () => {
+    const content = "# c\nA=ENC[1]\nsops_mac=x\n";
+    assert.deepStrictEqual(located(SopsFormat.env, content), [["A", "ENC[1]"]]);
+  });
+});
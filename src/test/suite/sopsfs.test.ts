@@ -0,0 +1,99 @@
+import * as assert from "assert";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { FileType, Uri } from "vscode";
+import type { JsonObject } from "type-fest";
+import { DecryptedCache } from "../../decrypted-cache";
+import { SopsFs } from "../../sopsfs";
+
+/**
+ * SopsFs of an empty JSON file decrypted to `tree` without running sops
+ */
+class FakeSopsFs extends SopsFs {
+  decryptions = 0;
+  // decryptions are finished once resolved if given
+  pending?: Promise<void>;
+
+  constructor(sopsUri: Uri, cache: DecryptedCache, private tree: JsonObject) {
+    super({
+      sopsUri,
+      sopsCmd: "sops",
+      env: {},
+      inferValueTypes: false,
+      cache,
+      leafExtensions: { rules: {}, detect: true },
+    });
+  }
+
+  async decryptContent(): Promise<{ raw: Buffer; tree: JsonObject | null }> {
+    this.decryptions++;
+    await this.pending;
+    return { raw: Buffer.from(JSON.stringify(this.tree)), tree: this.tree };
+  }
+}
+
+function sopsUriOf(...names: string[]): Uri {
+  return Uri.from({ scheme: "sops", path: "/" + names.join("/") });
+}
+
+suite("SopsFs", () => {
+  let dir: string;
+  let cache: DecryptedCache;
+  let sopsFs: FakeSopsFs | undefined;
+
+  setup(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "sopsfs-test-"));
+    await fs.writeFile(path.join(dir, "secrets.json"), "{}");
+    cache = new DecryptedCache();
+  });
+
+  teardown(async () => {
+    sopsFs?.dispose();
+    cache.dispose();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  function open(tree: JsonObject): FakeSopsFs {
+    sopsFs = new FakeSopsFs(
+      Uri.file(path.join(dir, "secrets.json")),
+      cache,
+      tree
+    );
+    return sopsFs;
+  }
+
+  test("sibling of extended name", async () => {
+    const sopsFs = open({ config: '{"a": 1}', ["config.json"]: "plain" });
+    const entries = await sopsFs.readDirectory(sopsUriOf());
+    assert.deepStrictEqual(
+      entries.filter(([name]) => name.startsWith("config")),
+      [
+        ["config", FileType.File],
+        ["config.json", FileType.File],
+      ]
+    );
+    assert.strictEqual(
+      Buffer.from(await sopsFs.readFile(sopsUriOf("config.json"))).toString(),
+      "plain"
+    );
+    assert.strictEqual((await sopsFs.stat(sopsUriOf("config"))).size, 8);
+  });
+
+  test("cleared while decrypting", async () => {
+    const sopsFs = open({ a: "b" });
+    let finish = () => {};
+    sopsFs.pending = new Promise((resolve) => (finish = resolve));
+    const listing = sopsFs.readDirectory(sopsUriOf());
+    while (!sopsFs.decryptions) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    cache.clear();
+    finish();
+    assert.ok((await listing).some(([name]) => name === "a"));
+
+    sopsFs.pending = undefined;
+    await sopsFs.readDirectory(sopsUriOf());
+    assert.strictEqual(sopsFs.decryptions, 2);
+  });
+});
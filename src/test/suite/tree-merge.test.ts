@@ -0,0 +1,42 @@
+import * as assert from "assert";
+import { describeChanges, diffTrees, findConflicts } from "../../tree-merge";
+
+suite("tree merge", () => {
+  const base = { a: "1", b: { c: 2, d: [1, 2] }, e: true };
+
+  test("diffTrees", () => {
+    assert.deepStrictEqual(diffTrees(base, base), []);
+    assert.deepStrictEqual(
+      diffTrees(base, { a: "2", b: { c: 2, d: [1], f: null } }),
+      [
+        { path: ["e"] },
+        { path: ["a"], value: "2" },
+        { path: ["b", "d"], value: [1] },
+        { path: ["b", "f"], value: null },
+      ]
+    );
+  });
+
+  test("findConflicts", () => {
+    const changes = diffTrees(base, { ...base, a: "2", b: { c: 3, d: [] } });
+    assert.deepStrictEqual(
+      findConflicts(
+        base,
+        { ...base, e: false, b: { c: 2, d: [1, 2] } },
+        changes
+      ),
+      []
+    );
+    assert.deepStrictEqual(
+      findConflicts(base, { ...base, a: "3", b: "replaced" }, changes),
+      [["a"], ["b", "c"], ["b", "d"]]
+    );
+  });
+
+  test("describeChanges", () => {
+    assert.deepStrictEqual(
+      describeChanges(base, { a: "2", b: { c: 2, d: [1], f: null } }),
+      ["-e", "~a", "~b/d", "+b/f"]
+    );
+  });
+});
@@ -0,0 +1,90 @@
+import type { JsonValue } from "type-fest";
+import { isDeepStrictEqual } from "util";
+
+export interface TreeChange {
+  path: string[];
+  // undefined if the key was deleted
+  value?: JsonValue;
+}
+
+function isDict(value: unknown): value is Record<string, JsonValue> {
+  return typeof value === "object" && !!value && !Array.isArray(value);
+}
+
+function getPath(
+  tree: JsonValue | null,
+  path: string[]
+): JsonValue | undefined {
+  let value: JsonValue | undefined = tree ?? undefined;
+  for (const key of path) {
+    if (typeof value !== "object" || !value) {
+      return undefined;
+    }
+    value = (value as Record<string, JsonValue>)[key];
+  }
+  return value;
+}
+
+/**
+ * Changes turning `base` into `ours`, dictionaries are compared key by key
+ * while any other value is compared as a whole.
+ */
+export function diffTrees(
+  base: JsonValue | null,
+  ours: JsonValue | null,
+  path: string[] = []
+): TreeChange[] {
+  if (isDeepStrictEqual(base, ours)) {
+    return [];
+  } else if (!isDict(base) || !isDict(ours)) {
+    return [{ path, value: ours ?? undefined }];
+  }
+  const changes: TreeChange[] = [];
+  for (const key of Object.keys(base)) {
+    if (!(key in ours)) {
+      changes.push({ path: [...path, key] });
+    }
+  }
+  for (const [key, value] of Object.entries(ours)) {
+    if (key in base) {
+      changes.push(...diffTrees(base[key], value, [...path, key]));
+    } else {
+      changes.push({ path: [...path, key], value });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Paths of `changes` whose values were also changed in `theirs`
+ */
+export function findConflicts(
+  base: JsonValue | null,
+  theirs: JsonValue | null,
+  changes: TreeChange[]
+): string[][] {
+  return changes
+    .filter(
+      ({ path }) =>
+        !isDeepStrictEqual(getPath(base, path), getPath(theirs, path)) ||
+        // parent was removed or replaced
+        !isDict(getPath(theirs, path.slice(0, -1))) !==
+          !isDict(getPath(base, path.slice(0, -1)))
+    )
+    .map(({ path }) => path);
+}
+
+/**
+ * Key-level summary of changes turning `base` into `ours`, each key path
+ * prefixed with `+` if added, `-` if deleted or `~` if changed
+ */
+export function describeChanges(
+  base: JsonValue | null,
+  ours: JsonValue | null
+): string[] {
+  return diffTrees(base, ours).map(({ path, value }) => {
+    const mark =
+      value === undefined ? "-" : getPath(base, path) === undefined ? "+" : "~";
+    return mark + path.join("/");
+  });
+}
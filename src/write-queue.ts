@@ -0,0 +1,53 @@
+interface QueuedItem<T> {
+  item: T;
+  resolve: () => void;
+  reject: (e: unknown) => void;
+}
+
+/**
+ * Collect items enqueued within a short window and apply them as one batch,
+ * batches are applied one after another.
+ */
+export class WriteQueue<T> {
+  private queued: QueuedItem<T>[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running: Promise<void> = Promise.resolve();
+
+  /**
+   * @param apply applies a batch of items, returns errors of items that
+   *  failed individually
+   * @param delay milliseconds to wait for more items before applying
+   */
+  constructor(
+    private apply: (items: T[]) => Promise<(unknown | undefined)[]>,
+    private delay = 50
+  ) {}
+
+  enqueue(item: T): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.queued.push({ item, resolve, reject });
+      if (!this.timer) {
+        this.timer = setTimeout(() => this.flush(), this.delay);
+      }
+    });
+  }
+
+  private flush() {
+    this.timer = null;
+    this.running = this.running.then(async () => {
+      const batch = this.queued;
+      this.queued = [];
+      if (batch.length === 0) {
+        return;
+      }
+      try {
+        const errors = await this.apply(batch.map((i) => i.item));
+        batch.forEach((i, idx) =>
+          errors[idx] === undefined ? i.resolve() : i.reject(errors[idx])
+        );
+      } catch (e) {
+        batch.forEach((i) => i.reject(e));
+      }
+    });
+  }
+}